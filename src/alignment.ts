@@ -0,0 +1,270 @@
+import { equalityKey, isEqual } from './equal';
+import {
+  ElementMatch,
+  longestIncreasingRun,
+  matchByKey,
+  matchByPosition,
+} from './matching';
+import { Ancestors } from './cycles';
+import { myersDiff } from './myers';
+import { resolveArrayKey } from './paths';
+import { DiffOptions, DiffResult, DiffType, SerializableValue } from './types';
+
+/**
+ * One step of rewriting an old array into a new one, `child` being the diff
+ * the element belongs to
+ * - `keep`: the element stays in place, `child` describes how it changed
+ * - `delete`: the old element at `oldIndex` goes away
+ * - `insert`: the new element at `newIndex` is added
+ *
+ * An element matched on both sides that changed position gets a `delete` and
+ * an `insert` step sharing the same `child`.
+ */
+export type ArrayStep =
+  | { type: 'keep'; child: DiffResult; oldIndex: number; newIndex: number }
+  | { type: 'delete'; child: DiffResult; oldIndex: number }
+  | { type: 'insert'; child: DiffResult; newIndex: number };
+
+interface AlignedChild {
+  child: DiffResult;
+  oldIndex?: number;
+  newIndex?: number;
+}
+
+/**
+ * Turn the children of an array diff into steps ordered by both the old and
+ * the new array. Positional children take their index from `path`, LCS and
+ * keyed children from `meta.fromIndex`/`meta.toIndex`. Matched elements that
+ * changed position (moves and reordered keys) are expressed as a delete plus
+ * an insert, keeping the longest run of elements that stayed in order.
+ *
+ * @param diff - A CHANGED array diff
+ * @returns Steps in sequence order
+ */
+export function alignChildren(diff: DiffResult): ArrayStep[] {
+  const entries: AlignedChild[] = (diff.children ?? []).map((child) => {
+    const { fromIndex, toIndex } = child.meta ?? {};
+    if (fromIndex !== undefined || toIndex !== undefined) {
+      return { child, oldIndex: fromIndex, newIndex: toIndex };
+    }
+
+    const index = Number(child.path?.[child.path.length - 1]);
+    return {
+      child,
+      oldIndex: child.type === DiffType.ADDED ? undefined : index,
+      newIndex: child.type === DiffType.REMOVED ? undefined : index,
+    };
+  });
+
+  const matched = entries
+    .filter(
+      (entry) =>
+        entry.oldIndex !== undefined &&
+        entry.newIndex !== undefined &&
+        entry.child.type !== DiffType.MOVED,
+    )
+    .sort((a, b) => a.newIndex! - b.newIndex!);
+  const stable = longestIncreasingRun(matched, (entry) => entry.oldIndex!);
+
+  const byOld = entries
+    .filter((entry) => entry.oldIndex !== undefined)
+    .sort((a, b) => a.oldIndex! - b.oldIndex!);
+  const byNew = entries
+    .filter((entry) => entry.newIndex !== undefined)
+    .sort((a, b) => a.newIndex! - b.newIndex!);
+
+  const steps: ArrayStep[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < byOld.length || j < byNew.length) {
+    const oldEntry = byOld[i];
+    const newEntry = byNew[j];
+
+    if (oldEntry && !stable.has(oldEntry)) {
+      steps.push({
+        type: 'delete',
+        child: oldEntry.child,
+        oldIndex: oldEntry.oldIndex!,
+      });
+      i++;
+    } else if (newEntry && !stable.has(newEntry)) {
+      steps.push({
+        type: 'insert',
+        child: newEntry.child,
+        newIndex: newEntry.newIndex!,
+      });
+      j++;
+    } else {
+      // Both sides point at the same stable element
+      steps.push({
+        type: 'keep',
+        child: oldEntry.child,
+        oldIndex: oldEntry.oldIndex!,
+        newIndex: oldEntry.newIndex!,
+      });
+      i++;
+      j++;
+    }
+  }
+
+  return steps;
+}
+
+/**
+ * How two arrays are aligned: by `arrayKey` when every element has a key,
+ * else by LCS with `arrayMode: 'lcs'`, else by position
+ */
+export type ArrayMode = 'key' | 'lcs' | 'position';
+
+/**
+ * Align two arrays the way createDiff compares them
+ *
+ * @param oldArray - The original array
+ * @param newArray - The new array
+ * @param options - Configuration options
+ * @param path - Path of the arrays in the object tree
+ * @param ancestors - Objects being compared by the enclosing calls
+ * @returns The mode used and the matches in the order of the diff children
+ */
+export function matchArrays(
+  oldArray: SerializableValue[],
+  newArray: SerializableValue[],
+  options: DiffOptions,
+  path: string[],
+  ancestors: Ancestors,
+): { mode: ArrayMode; matches: ElementMatch[] } {
+  const selectKey = resolveArrayKey(options, path);
+  const keyed = selectKey && matchByKey(oldArray, newArray, selectKey);
+  if (keyed) {
+    return { mode: 'key', matches: keyed };
+  }
+  if (options.arrayMode === 'lcs') {
+    return {
+      mode: 'lcs',
+      matches: matchElements(oldArray, newArray, options, path, ancestors),
+    };
+  }
+  return { mode: 'position', matches: matchByPosition(oldArray, newArray) };
+}
+
+/**
+ * Align two arrays with a Myers diff of deep-equal elements. Deleted
+ * elements that reappear elsewhere are moves; the remaining deletions and
+ * insertions between two aligned elements are matched up in order, and the
+ * leftovers are deletions and insertions.
+ *
+ * @param oldArray - The original array
+ * @param newArray - The new array
+ * @param options - Configuration options
+ * @param path - Path of the arrays in the object tree
+ * @param ancestors - Objects being compared by the enclosing calls
+ * @returns Matches in the order of the diff children
+ */
+export function matchElements(
+  oldArray: SerializableValue[],
+  newArray: SerializableValue[],
+  options: DiffOptions,
+  path: string[],
+  ancestors: Ancestors,
+): ElementMatch[] {
+  // Intern the equality key of every element once: elements with different
+  // keys are never equal, so most probes are settled without isEqual
+  const keyIds = new Map<string, number>();
+  const keyId = (value: SerializableValue) => {
+    const key = equalityKey(value, options);
+    if (key === undefined) return undefined;
+    if (!keyIds.has(key)) keyIds.set(key, keyIds.size);
+    return keyIds.get(key);
+  };
+  const oldIds = oldArray.map(keyId);
+  const newIds = newArray.map(keyId);
+
+  const equals = (
+    a: SerializableValue,
+    b: SerializableValue,
+    oldIndex: number,
+    newIndex: number,
+  ) =>
+    (oldIds[oldIndex] === undefined ||
+      newIds[newIndex] === undefined ||
+      oldIds[oldIndex] === newIds[newIndex]) &&
+    isEqual(a, b, options, [...path, newIndex.toString()], ancestors);
+  const script = myersDiff(oldArray, newArray, equals);
+
+  // Pair deleted elements with equal inserted elements: those were moved.
+  // Only deletions with the same equality key can be equal to an insertion.
+  const deletedByKey = new Map<number | undefined, number[]>();
+  for (const op of script) {
+    if (op.type !== 'delete') continue;
+    const indices = deletedByKey.get(oldIds[op.oldIndex]) ?? [];
+    indices.push(op.oldIndex);
+    deletedByKey.set(oldIds[op.oldIndex], indices);
+  }
+  const movedFrom = new Map<number, number>();
+  const movedOld = new Set<number>();
+  for (const op of script) {
+    if (op.type !== 'insert') continue;
+    const deleted = deletedByKey.get(newIds[op.newIndex]) ?? [];
+    const fromIndex = deleted.find(
+      (index) =>
+        !movedOld.has(index) &&
+        equals(oldArray[index], newArray[op.newIndex], index, op.newIndex),
+    );
+    if (fromIndex !== undefined) {
+      movedFrom.set(op.newIndex, fromIndex);
+      movedOld.add(fromIndex);
+    }
+  }
+
+  const matches: ElementMatch[] = [];
+  let pendingDeletes: number[] = [];
+  let pendingInserts: number[] = [];
+
+  const flushGap = () => {
+    const inserts = pendingInserts.filter((index) => !movedFrom.has(index));
+    const pairs = Math.min(pendingDeletes.length, inserts.length);
+
+    for (let i = 0; i < pairs; i++) {
+      matches.push({
+        type: 'match',
+        oldIndex: pendingDeletes[i],
+        newIndex: inserts[i],
+      });
+    }
+    for (const oldIndex of pendingDeletes.slice(pairs)) {
+      matches.push({ type: 'delete', oldIndex });
+    }
+    for (const newIndex of pendingInserts) {
+      const fromIndex = movedFrom.get(newIndex);
+      if (fromIndex !== undefined) {
+        matches.push({ type: 'move', oldIndex: fromIndex, newIndex });
+      } else if (inserts.indexOf(newIndex) >= pairs) {
+        matches.push({ type: 'insert', newIndex });
+      }
+    }
+
+    pendingDeletes = [];
+    pendingInserts = [];
+  };
+
+  for (const op of script) {
+    if (op.type === 'delete') {
+      if (!movedOld.has(op.oldIndex)) {
+        pendingDeletes.push(op.oldIndex);
+      }
+    } else if (op.type === 'insert') {
+      pendingInserts.push(op.newIndex);
+    } else {
+      flushGap();
+      matches.push({
+        type: 'match',
+        oldIndex: op.oldIndex,
+        newIndex: op.newIndex,
+      });
+    }
+  }
+  flushGap();
+
+  return matches;
+}
@@ -0,0 +1,155 @@
+import { colors } from './colors';
+
+// Select Graphic Rendition sequences, the only escape codes used for colors
+const sgrPattern = /\x1b\[[0-9;]*m/g;
+
+// Combining marks and format characters such as zero-width joiners
+const zeroWidthPattern = /^[\p{Mn}\p{Me}\p{Cf}]+$/u;
+
+// Emoji drawn as pictures by default, or asked to be by a variation selector
+const emojiPattern = /\p{Emoji_Presentation}|\uFE0F/u;
+
+// Code point ranges of the East Asian Wide and Fullwidth characters
+const wideRanges: [number, number][] = [
+  [0x1100, 0x115f],
+  [0x2e80, 0x303e],
+  [0x3041, 0x33ff],
+  [0x3400, 0x4dbf],
+  [0x4e00, 0x9fff],
+  [0xa000, 0xa4cf],
+  [0xa960, 0xa97f],
+  [0xac00, 0xd7a3],
+  [0xf900, 0xfaff],
+  [0xfe10, 0xfe19],
+  [0xfe30, 0xfe6f],
+  [0xff00, 0xff60],
+  [0xffe0, 0xffe6],
+  [0x1b000, 0x1b2ff],
+  [0x20000, 0x2fffd],
+  [0x30000, 0x3fffd],
+];
+
+/**
+ * Number of terminal columns taken by a text, not counting ANSI escape
+ * codes. East Asian wide characters and emoji take two columns, combining
+ * marks none.
+ */
+export function visibleWidth(text: string): number {
+  let width = 0;
+  for (const grapheme of splitGraphemes(text.replace(sgrPattern, ''))) {
+    width += graphemeWidth(grapheme);
+  }
+  return width;
+}
+
+let segmenter: Intl.Segmenter | undefined;
+
+/**
+ * Split a text into user-perceived characters. Runtimes without
+ * `Intl.Segmenter` split it into code points, where combining marks and
+ * joiners count as characters of no width.
+ */
+function splitGraphemes(text: string): string[] {
+  if (typeof Intl === 'undefined' || typeof Intl.Segmenter !== 'function') {
+    return Array.from(text);
+  }
+  segmenter ??= new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+  return Array.from(segmenter.segment(text), ({ segment }) => segment);
+}
+
+/**
+ * Columns taken by one user-perceived character, as most terminals draw it
+ */
+function graphemeWidth(grapheme: string): number {
+  if (zeroWidthPattern.test(grapheme)) {
+    return 0;
+  }
+  const codePoint = grapheme.codePointAt(0) ?? 0;
+  const wide =
+    emojiPattern.test(grapheme) ||
+    wideRanges.some(([start, end]) => codePoint >= start && codePoint <= end);
+  return wide ? 2 : 1;
+}
+
+/**
+ * Pad a text with spaces to a number of visible columns
+ */
+export function padAnsi(text: string, width: number): string {
+  return text + ' '.repeat(Math.max(0, width - visibleWidth(text)));
+}
+
+/**
+ * Break a text into lines of at most `width` visible columns, at newlines
+ * and between words where possible, dropping the spaces at the breaks.
+ * Escape codes are copied without taking up room; a line ending with colors
+ * in effect is reset and the next line opens them again after its hanging
+ * indent, so every line can be padded and printed on its own.
+ *
+ * @param text - Text, possibly with ANSI escape codes
+ * @param width - Visible columns per line
+ * @param hanging - Spaces starting every line after the first
+ * @returns The lines, at least one
+ */
+export function wrapAnsi(text: string, width: number, hanging = 0): string[] {
+  const limit = Math.max(hanging + 1, width);
+  const lines: string[] = [];
+  let active: string[] = [];
+  let line = '';
+  let used = 0;
+
+  const breakLine = (wrapped: boolean) => {
+    const text = wrapped ? line.replace(/ +$/, '') : line;
+    lines.push(active.length > 0 ? `${text}${colors.reset}` : text);
+    line = `${' '.repeat(hanging)}${active.join('')}`;
+    used = hanging;
+  };
+
+  for (const token of text.split(/(\x1b\[[0-9;]*m|\n)/)) {
+    if (token === '\n') {
+      breakLine(false);
+    } else if (token.startsWith('\x1b[')) {
+      line += token;
+      active = updateActive(active, token);
+    } else {
+      for (const word of token.match(/\S+\s*|\s+/g) ?? []) {
+        // Move a word that fits on a line of its own to the next line
+        const length = visibleWidth(word.trimEnd());
+        if (
+          used > hanging &&
+          used + length > limit &&
+          length <= limit - hanging
+        ) {
+          breakLine(true);
+        }
+        for (const char of splitGraphemes(word)) {
+          const width = graphemeWidth(char);
+          if (used + width <= limit) {
+            line += char;
+            used += width;
+          } else if (char !== ' ') {
+            breakLine(true);
+            line += char;
+            used += width;
+          }
+        }
+      }
+    }
+  }
+  lines.push(line);
+
+  return lines;
+}
+
+/**
+ * Escape codes in effect after another one: a reset clears them all and
+ * turning inverse video off cancels turning it on
+ */
+function updateActive(active: string[], code: string): string[] {
+  if (code === colors.reset) {
+    return [];
+  }
+  if (code === colors.noInverse) {
+    return active.filter((activeCode) => activeCode !== colors.inverse);
+  }
+  return [...active, code];
+}
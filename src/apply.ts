@@ -0,0 +1,256 @@
+import { alignChildren } from './alignment';
+import { isEqual } from './equal';
+import { DiffResult, DiffType, SerializableValue } from './types';
+import { isObject, isTypedArray } from './utils';
+
+type Direction = 'apply' | 'revert';
+
+/**
+ * Replay a diff result onto a value, producing the new value.
+ * Only the paths touched by the diff are checked and rewritten, so the
+ * value may differ from the recorded `oldValue` elsewhere (e.g. in keys
+ * skipped through `ignoreKeys`). The input is never mutated: containers on
+ * touched paths are copied and untouched subtrees are shared with it.
+ *
+ * @param oldValue - The value to apply the diff to
+ * @param result - A diff result from `diffRaw`
+ * @returns The new value
+ * @throws Error when a touched path no longer holds the recorded old value
+ */
+export function applyDiff(
+  oldValue: SerializableValue,
+  result: DiffResult,
+): SerializableValue {
+  return replay(oldValue, result, 'apply', []);
+}
+
+/**
+ * Replay a diff result backwards onto a value, producing the old value.
+ * The counterpart of {@link applyDiff}.
+ *
+ * @param newValue - The value to revert the diff on
+ * @param result - A diff result from `diffRaw`
+ * @returns The old value
+ * @throws Error when a touched path no longer holds the recorded new value
+ */
+export function revertDiff(
+  newValue: SerializableValue,
+  result: DiffResult,
+): SerializableValue {
+  return replay(newValue, result, 'revert', []);
+}
+
+/**
+ * Rebuild `target` according to one diff node, copying it when the node
+ * changes something inside
+ */
+function replay(
+  target: SerializableValue,
+  node: DiffResult,
+  direction: Direction,
+  path: string[],
+): SerializableValue {
+  const from = direction === 'apply' ? node.oldValue : node.newValue;
+  const to = direction === 'apply' ? node.newValue : node.oldValue;
+
+  switch (node.type) {
+    case DiffType.UNCHANGED:
+      return target;
+    case DiffType.MOVED:
+      // The parent array already placed the element at its new position
+      expectValue(target, from, direction, path);
+      return target;
+    case DiffType.ADDED:
+    case DiffType.REMOVED:
+      expectValue(target, from, direction, path);
+      return copyValue(to);
+  }
+
+  const { children = [] } = node;
+
+  if (children.length > 0 && Array.isArray(from) && Array.isArray(to)) {
+    if (!Array.isArray(target) || target.length !== from.length) {
+      throw mismatch(target, from, direction, path);
+    }
+    return replayArray(target, node, direction, path);
+  }
+
+  if (children.length > 0 && isObject(from) && isObject(to)) {
+    if (!isObject(target)) {
+      throw mismatch(target, from, direction, path);
+    }
+    const output = copyObject(target);
+    for (const child of children) {
+      const key = child.path?.[child.path.length - 1] ?? '';
+      const value = replay(target[key], child, direction, [...path, key]);
+      if (value === undefined) {
+        delete output[key];
+      } else {
+        output[key] = value;
+      }
+    }
+    return output;
+  }
+
+  expectValue(target, from, direction, path);
+  return copyValue(to);
+}
+
+/**
+ * Rebuild an array from the aligned steps. Applying walks the steps keeping
+ * the new elements, reverting keeps the old ones; elements that changed
+ * position are replayed from where they sit in the target.
+ */
+function replayArray(
+  target: SerializableValue[],
+  node: DiffResult,
+  direction: Direction,
+  path: string[],
+): SerializableValue[] {
+  const oldArray = node.oldValue as SerializableValue[];
+  const newArray = node.newValue as SerializableValue[];
+  const output: SerializableValue[] = [];
+
+  for (const step of alignChildren(node)) {
+    const { fromIndex, toIndex } = step.child.meta ?? {};
+    const matched = fromIndex !== undefined && toIndex !== undefined;
+
+    if (step.type === 'keep') {
+      const index = direction === 'apply' ? step.oldIndex : step.newIndex;
+      output.push(
+        replay(target[index], step.child, direction, [
+          ...path,
+          index.toString(),
+        ]),
+      );
+      continue;
+    }
+
+    // The step that removes an element on this side of the replay
+    const leaving = direction === 'apply' ? 'delete' : 'insert';
+    const index = step.type === 'delete' ? step.oldIndex : step.newIndex;
+    const recorded = step.type === 'delete' ? oldArray[index] : newArray[index];
+
+    if (step.type === leaving) {
+      // Matched elements are checked when replayed at their new position
+      if (!matched) {
+        expectValue(target[index], recorded, direction, [
+          ...path,
+          index.toString(),
+        ]);
+      }
+    } else if (matched) {
+      const sourceIndex = direction === 'apply' ? fromIndex : toIndex;
+      output.push(
+        replay(target[sourceIndex], step.child, direction, [
+          ...path,
+          sourceIndex.toString(),
+        ]),
+      );
+    } else {
+      output.push(copyValue(recorded));
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Shallow copy of an object with the same prototype, so class instances
+ * keep their methods
+ */
+function copyObject(value: { [key: string]: SerializableValue }): {
+  [key: string]: SerializableValue;
+} {
+  return Object.assign(
+    Object.create(Object.getPrototypeOf(value) as object | null) as {
+      [key: string]: SerializableValue;
+    },
+    value,
+  );
+}
+
+/**
+ * Deep copy of a value recorded in the diff, so the output never shares
+ * containers with the diff result. Unlike structuredClone it keeps
+ * prototypes and copies functions such as `toJSON` by reference.
+ */
+function copyValue(
+  value: SerializableValue,
+  copies = new Map<object, SerializableValue>(),
+): SerializableValue {
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  const known = copies.get(value);
+  if (known !== undefined) {
+    return known;
+  }
+
+  if (Array.isArray(value)) {
+    const array: SerializableValue[] = [];
+    copies.set(value, array);
+    value.forEach((item) => array.push(copyValue(item, copies)));
+    return array;
+  }
+  if (value instanceof Map) {
+    const map = new Map<SerializableValue, SerializableValue>();
+    copies.set(value, map);
+    value.forEach((item, key) => map.set(key, copyValue(item, copies)));
+    return map;
+  }
+  if (value instanceof Set) {
+    const set = new Set<SerializableValue>();
+    copies.set(value, set);
+    value.forEach((item) => set.add(copyValue(item, copies)));
+    return set;
+  }
+  if (value instanceof Date) {
+    return new Date(value.getTime());
+  }
+  if (value instanceof RegExp) {
+    return new RegExp(value);
+  }
+  if (isTypedArray(value)) {
+    return value.slice();
+  }
+  if (isObject(value)) {
+    const object = copyObject(value);
+    copies.set(value, object);
+    for (const key of Object.keys(object)) {
+      object[key] = copyValue(object[key], copies);
+    }
+    return object;
+  }
+  return value;
+}
+
+function expectValue(
+  actual: SerializableValue,
+  expected: SerializableValue,
+  direction: Direction,
+  path: string[],
+): void {
+  if (!isEqual(actual, expected)) {
+    throw mismatch(actual, expected, direction, path);
+  }
+}
+
+function mismatch(
+  actual: SerializableValue,
+  expected: SerializableValue,
+  direction: Direction,
+  path: string[],
+): Error {
+  const location = path.length > 0 ? path.join('.') : '(root)';
+  const describe = (value: SerializableValue) =>
+    value === undefined
+      ? 'undefined'
+      : JSON.stringify(value, (_key, item) =>
+          typeof item === 'bigint' ? `${item}n` : item,
+        );
+
+  return new Error(
+    `Cannot ${direction} diff at ${location}: expected ${describe(expected)}, found ${describe(actual)}`,
+  );
+}
@@ -0,0 +1,111 @@
+import { ColorTheme, DiffOptions, ThemeColor, ThemeName } from './types';
+
+// ANSI color codes
+export const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+  gray: '\x1b[90m',
+  inverse: '\x1b[7m',
+  noInverse: '\x1b[27m',
+};
+
+/**
+ * Preset color themes for the `theme` option
+ */
+export const themes: Record<ThemeName, ColorTheme> = {
+  default: {
+    added: colors.green,
+    removed: colors.red,
+    moved: colors.yellow,
+    muted: colors.gray,
+  },
+  colorblind: {
+    added: 33,
+    removed: 208,
+    moved: 135,
+    muted: colors.gray,
+  },
+};
+
+/**
+ * Escape codes of a theme, by role
+ */
+export type Palette = Record<keyof ColorTheme, string>;
+
+const paletteByOptions = new WeakMap<DiffOptions, Palette | null>();
+
+/**
+ * Escape codes to paint the output with, or undefined when the options
+ * turn colors off. Resolved once per options object.
+ *
+ * @throws Error for an unknown theme name or an invalid color
+ */
+export function paletteFor(options: DiffOptions): Palette | undefined {
+  let palette = paletteByOptions.get(options);
+  if (palette === undefined) {
+    palette = isColorEnabled(options) ? resolvePalette(options) : null;
+    paletteByOptions.set(options, palette);
+  }
+  return palette ?? undefined;
+}
+
+function isColorEnabled({ color = true }: DiffOptions): boolean {
+  if (color !== 'auto') {
+    return color;
+  }
+  if (typeof process === 'undefined') {
+    return false;
+  }
+
+  const { FORCE_COLOR, NO_COLOR, TERM } = process.env;
+  if (FORCE_COLOR !== undefined) {
+    return FORCE_COLOR !== '0' && FORCE_COLOR !== 'false';
+  }
+  if ((NO_COLOR !== undefined && NO_COLOR !== '') || TERM === 'dumb') {
+    return false;
+  }
+  return process.stdout?.isTTY === true;
+}
+
+function resolvePalette({ theme = 'default' }: DiffOptions): Palette {
+  let colorTheme: ColorTheme;
+  if (typeof theme === 'string') {
+    if (!Object.hasOwn(themes, theme)) {
+      throw new Error(`Unknown theme: ${theme}`);
+    }
+    colorTheme = themes[theme];
+  } else {
+    colorTheme = { ...themes.default, ...theme };
+  }
+
+  return {
+    added: toEscapeCode(colorTheme.added),
+    removed: toEscapeCode(colorTheme.removed),
+    moved: toEscapeCode(colorTheme.moved),
+    muted: toEscapeCode(colorTheme.muted),
+  };
+}
+
+/**
+ * Foreground escape code of a theme color
+ */
+function toEscapeCode(color: ThemeColor): string {
+  if (typeof color === 'number') {
+    if (!Number.isInteger(color) || color < 0 || color > 255) {
+      throw new Error(`Invalid theme color: ${color}`);
+    }
+    return `\x1b[38;5;${color}m`;
+  }
+
+  const hex = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(color);
+  if (hex) {
+    const [red, green, blue] = hex.slice(1).map((part) => parseInt(part, 16));
+    return `\x1b[38;2;${red};${green};${blue}m`;
+  }
+  if (/^\x1b\[[0-9;]*m$/.test(color)) {
+    return color;
+  }
+  throw new Error(`Invalid theme color: ${JSON.stringify(color)}`);
+}
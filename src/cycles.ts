@@ -0,0 +1,63 @@
+/**
+ * Objects on each side that are being compared by an enclosing createDiff
+ * or isEqual call, with the path of that comparison. Reaching one of them
+ * again means the graph has a cycle; objects merely shared between branches
+ * are compared each time. Both sides of a comparison are registered with the
+ * same path array, so two references close the same cycle when their
+ * targets are identical.
+ *
+ * Each top-level comparison starts from its own state and passes it down, so
+ * a diff run by a comparator never sees the objects of the enclosing one.
+ */
+export interface Ancestors {
+  old: Map<object, string[]>;
+  new: Map<object, string[]>;
+}
+
+/**
+ * Create the ancestor state of a new top-level comparison
+ */
+export function createAncestors(): Ancestors {
+  return { old: new Map(), new: new Map() };
+}
+
+/**
+ * Check whether a value can take part in a cycle
+ */
+export function isReference(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Paths of the enclosing comparisons the two objects belong to, if any
+ */
+export function findCycle(
+  ancestors: Ancestors,
+  oldValue: object,
+  newValue: object,
+): { oldTarget?: string[]; newTarget?: string[] } | undefined {
+  const oldTarget = ancestors.old.get(oldValue);
+  const newTarget = ancestors.new.get(newValue);
+  return oldTarget || newTarget ? { oldTarget, newTarget } : undefined;
+}
+
+/**
+ * Run a comparison of two objects with both registered as ancestors at the
+ * given path
+ */
+export function withinAncestors<T>(
+  ancestors: Ancestors,
+  oldValue: object,
+  newValue: object,
+  path: string[],
+  compare: () => T,
+): T {
+  ancestors.old.set(oldValue, path);
+  ancestors.new.set(newValue, path);
+  try {
+    return compare();
+  } finally {
+    ancestors.old.delete(oldValue);
+    ancestors.new.delete(newValue);
+  }
+}
@@ -1,5 +1,35 @@
-import leven from 'leven';
-import { DiffOptions, DiffResult, DiffType, SerializableValue } from './types';
+import { measureStrings } from './distance';
+import { ArrayMode, matchArrays } from './alignment';
+import { diffSegments } from './segments';
+import { diffLines } from './hunks';
+import { summarizeChildren, summarizeCollapsed } from './similarity';
+import {
+  Ancestors,
+  createAncestors,
+  findCycle,
+  isReference,
+  withinAncestors,
+} from './cycles';
+import { isEqual } from './equal';
+import { ElementMatch, elementSegment, pairMembers } from './matching';
+import { comparatorVerdict, isIgnoredPath, toleranceAt } from './paths';
+import {
+  DiffOptions,
+  DiffResult,
+  DiffType,
+  SerializableValue,
+  ValueType,
+} from './types';
+import {
+  isJsonConvertible,
+  isNativeObject,
+  isSameNativeValue,
+  isTypedArray,
+  isWithinTolerance,
+  jsonForm,
+  toLooseNumber,
+  valueType,
+} from './utils';
 
 /**
  * Compares two values (objects, arrays, strings, etc.) and creates a diff result
@@ -9,6 +39,8 @@ import { DiffOptions, DiffResult, DiffType, SerializableValue } from './types';
  * @param newValue - The new value to compare against
  * @param options - Configuration options
  * @param path - Current path in the object tree (used internally for recursion)
+ * @param ancestors - Objects being compared by the enclosing calls (used
+ * internally for recursion)
  * @returns A diff result object
  */
 export function createDiff(
@@ -16,9 +48,8 @@ export function createDiff(
   newValue: SerializableValue,
   options: DiffOptions = {},
   path: string[] = [],
+  ancestors: Ancestors = createAncestors(),
 ): DiffResult {
-  const { keysOnly = false, ignoreValues = false } = options;
-
   // Handle case where one or both values are undefined
   if (oldValue === undefined && newValue === undefined) {
     return { type: DiffType.UNCHANGED };
@@ -30,6 +61,140 @@ export function createDiff(
     return { type: DiffType.REMOVED, path, oldValue };
   }
 
+  // Custom comparators take precedence over the built-in comparison
+  const verdict = comparatorVerdict(options, path, oldValue, newValue);
+  if (verdict) {
+    const result: DiffResult = {
+      type: verdict.equal ? DiffType.UNCHANGED : DiffType.CHANGED,
+      path,
+      oldValue,
+      newValue,
+    };
+    if (verdict.meta) {
+      result.meta = verdict.meta;
+    }
+    return result;
+  }
+
+  // Class instances compare through their JSON form
+  if (isJsonConvertible(oldValue) || isJsonConvertible(newValue)) {
+    return createDiff(
+      jsonForm(oldValue),
+      jsonForm(newValue),
+      options,
+      path,
+      ancestors,
+    );
+  }
+
+  // Values of different kinds (null aside) are a change of type
+  const oldType = valueType(oldValue);
+  const newType = valueType(newValue);
+  if (
+    oldType !== newType &&
+    oldType &&
+    newType &&
+    oldValue !== null &&
+    newValue !== null
+  ) {
+    return compareTypes(oldValue, newValue, oldType, newType, options, path);
+  }
+
+  // Objects already being compared further up close a cycle
+  if (isReference(oldValue) && isReference(newValue)) {
+    const cycle = findCycle(ancestors, oldValue, newValue);
+    if (cycle) {
+      const { oldTarget, newTarget } = cycle;
+      return {
+        type: oldTarget === newTarget ? DiffType.UNCHANGED : DiffType.CHANGED,
+        path,
+        oldValue,
+        newValue,
+        meta: { circular: newTarget ?? oldTarget },
+      };
+    }
+
+    return withinAncestors(ancestors, oldValue, newValue, path, () =>
+      compareValues(oldValue, newValue, options, path, ancestors),
+    );
+  }
+
+  return compareValues(oldValue, newValue, options, path, ancestors);
+}
+
+/**
+ * Compare values of different kinds. Scalar values are ignored like other
+ * values under `keysOnly`/`ignoreValues`, and compared by value when
+ * `strictTypes` is off.
+ */
+function compareTypes(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  oldType: ValueType,
+  newType: ValueType,
+  options: DiffOptions,
+  path: string[],
+): DiffResult {
+  const {
+    keysOnly = false,
+    ignoreValues = false,
+    strictTypes = true,
+  } = options;
+  const isContainer = (type: ValueType) =>
+    type === 'array' || type === 'object' || type === 'map' || type === 'set';
+
+  if (
+    (keysOnly || ignoreValues) &&
+    !(isContainer(oldType) && isContainer(newType))
+  ) {
+    return {
+      type: DiffType.UNCHANGED,
+      path,
+      oldValue,
+      newValue,
+      meta: { ignored: true },
+    };
+  }
+  if (!strictTypes) {
+    const oldNumber = toLooseNumber(oldValue);
+    if (oldNumber !== undefined && oldNumber === toLooseNumber(newValue)) {
+      return { type: DiffType.UNCHANGED, path, oldValue, newValue };
+    }
+  }
+
+  return {
+    type: DiffType.TYPE_CHANGED,
+    path,
+    oldValue,
+    newValue,
+    meta: { oldType, newType },
+  };
+}
+
+/**
+ * Compare two defined values with the built-in rules
+ */
+function compareValues(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  options: DiffOptions,
+  path: string[],
+  ancestors: Ancestors,
+): DiffResult {
+  const {
+    keysOnly = false,
+    ignoreValues = false,
+    highlight = false,
+    stringSegments = highlight ? 'char' : undefined,
+    lineDiff = false,
+    contextLines = 3,
+  } = options;
+
+  // Dates, regular expressions, typed arrays, maps and sets
+  if (isNativeObject(oldValue) || isNativeObject(newValue)) {
+    return compareNative(oldValue, newValue, options, path, ancestors);
+  }
+
   // Handle primitive values
   if (
     typeof oldValue !== 'object' ||
@@ -51,22 +216,50 @@ export function createDiff(
       return { type: DiffType.UNCHANGED, path, oldValue, newValue };
     }
 
+    // Numbers within tolerance are equal, others record how much they moved
+    if (typeof oldValue === 'number' && typeof newValue === 'number') {
+      const tolerance = toleranceAt(options, path, oldValue, newValue);
+      if (isWithinTolerance(oldValue, newValue, tolerance)) {
+        return { type: DiffType.UNCHANGED, path, oldValue, newValue };
+      }
+
+      const delta = newValue - oldValue;
+      const meta: DiffResult['meta'] = { delta };
+      if (oldValue !== 0) {
+        meta.percentChange = (delta / Math.abs(oldValue)) * 100;
+      }
+      return { type: DiffType.CHANGED, path, oldValue, newValue, meta };
+    }
+
     // Special handling for strings - use Levenshtein distance
     if (typeof oldValue === 'string' && typeof newValue === 'string') {
-      const distance = leven(oldValue, newValue);
-      const maxLength = Math.max(oldValue.length, newValue.length);
-      const similarityRatio = maxLength > 0 ? 1 - distance / maxLength : 1;
-
-      return {
-        type: DiffType.CHANGED,
-        path,
+      const { distance, similarity, approximate } = measureStrings(
         oldValue,
         newValue,
-        meta: {
-          levenDistance: distance,
-          similarity: similarityRatio,
-        },
+        options,
+      );
+      const meta: DiffResult['meta'] = {
+        levenDistance: distance,
+        similarity,
       };
+      if (approximate) {
+        meta.approximate = true;
+      }
+
+      // Strings only estimated are aligned by their prefix and suffix too
+      if (stringSegments) {
+        meta.segments = diffSegments(
+          oldValue,
+          newValue,
+          stringSegments,
+          approximate,
+        );
+      }
+      if (lineDiff && (oldValue.includes('\n') || newValue.includes('\n'))) {
+        meta.hunks = diffLines(oldValue, newValue, contextLines, approximate);
+      }
+
+      return { type: DiffType.CHANGED, path, oldValue, newValue, meta };
     }
 
     return { type: DiffType.CHANGED, path, oldValue, newValue };
@@ -74,48 +267,148 @@ export function createDiff(
 
   // Handle arrays
   if (Array.isArray(oldValue) && Array.isArray(newValue)) {
-    return compareArrays(oldValue, newValue, options, path);
+    return withSummary(oldValue, newValue, options, path, ancestors, () =>
+      compareArrays(oldValue, newValue, options, path, ancestors),
+    );
   }
 
   // Handle objects
-  return compareObjects(
-    oldValue as Record<string, SerializableValue>,
-    newValue as Record<string, SerializableValue>,
-    options,
-    path,
+  return withSummary(oldValue, newValue, options, path, ancestors, () =>
+    compareObjects(
+      oldValue as Record<string, SerializableValue>,
+      newValue as Record<string, SerializableValue>,
+      options,
+      path,
+      ancestors,
+    ),
   );
 }
 
 /**
- * Compare two objects and generate a diff
+ * Compare two containers and record the aggregated similarity and change
+ * count of the result. Containers at `maxDepth` or deeper are only
+ * summarized, and collapse when changed, so their children are never built.
  */
-function compareObjects(
-  oldObj: Record<string, SerializableValue>,
-  newObj: Record<string, SerializableValue>,
+function withSummary(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
   options: DiffOptions,
   path: string[],
+  ancestors: Ancestors,
+  compare: () => DiffResult,
 ): DiffResult {
-  const { ignoreKeys = [] } = options;
+  const { maxDepth } = options;
 
-  const allKeys = new Set([
-    ...Object.keys(oldObj).filter((key) => !ignoreKeys.includes(key)),
-    ...Object.keys(newObj).filter((key) => !ignoreKeys.includes(key)),
-  ]);
+  if (maxDepth !== undefined && path.length >= maxDepth) {
+    const meta = summarizeCollapsed(
+      oldValue,
+      newValue,
+      options,
+      path,
+      ancestors,
+    );
+    return meta.changeCount > 0
+      ? {
+          type: DiffType.CHANGED,
+          path,
+          oldValue,
+          newValue,
+          meta: { ...meta, collapsed: true },
+        }
+      : { type: DiffType.UNCHANGED, path, oldValue, newValue, meta };
+  }
 
+  const result = compare();
+  return {
+    ...result,
+    meta: { ...result.meta, ...summarizeChildren(result.children ?? []) },
+  };
+}
+
+/**
+ * Compare values where at least one is a Date, RegExp, typed array, Map or
+ * Set. Maps are diffed by key and sets by membership; the other types are
+ * compared as a whole, like primitives.
+ */
+function compareNative(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  options: DiffOptions,
+  path: string[],
+  ancestors: Ancestors,
+): DiffResult {
+  const { keysOnly = false, ignoreValues = false } = options;
+
+  if (oldValue instanceof Map && newValue instanceof Map) {
+    return withSummary(oldValue, newValue, options, path, ancestors, () =>
+      compareMaps(oldValue, newValue, options, path, ancestors),
+    );
+  }
+  if (oldValue instanceof Set && newValue instanceof Set) {
+    return withSummary(oldValue, newValue, options, path, ancestors, () =>
+      compareSets(oldValue, newValue, options, path, ancestors),
+    );
+  }
+
+  const isScalar = (value: SerializableValue) =>
+    typeof value !== 'object' ||
+    value === null ||
+    value instanceof Date ||
+    value instanceof RegExp ||
+    isTypedArray(value);
+
+  if (
+    (keysOnly || ignoreValues) &&
+    (isScalar(oldValue) || isScalar(newValue))
+  ) {
+    return {
+      type: DiffType.UNCHANGED,
+      path,
+      oldValue,
+      newValue,
+      meta: { ignored: true },
+    };
+  }
+  if (isSameNativeValue(oldValue, newValue)) {
+    return { type: DiffType.UNCHANGED, path, oldValue, newValue };
+  }
+
+  return { type: DiffType.CHANGED, path, oldValue, newValue };
+}
+
+/**
+ * Compare two maps key by key, like objects. Keys become path segments
+ * through `String(key)`.
+ */
+function compareMaps(
+  oldMap: Map<SerializableValue, SerializableValue>,
+  newMap: Map<SerializableValue, SerializableValue>,
+  options: DiffOptions,
+  path: string[],
+  ancestors: Ancestors,
+): DiffResult {
   const children: DiffResult[] = [];
   let hasChanges = false;
 
-  for (const key of allKeys) {
-    const childPath = [...path, key];
-    const oldValue = oldObj[key];
-    const newValue = newObj[key];
+  for (const key of new Set([...oldMap.keys(), ...newMap.keys()])) {
+    const childPath = [...path, String(key)];
+    const oldValue = oldMap.get(key);
+    const newValue = newMap.get(key);
 
-    const childDiff = createDiff(oldValue, newValue, options, childPath);
+    if (isIgnoredPath(options, childPath, oldValue, newValue)) {
+      continue;
+    }
 
+    const childDiff = createDiff(
+      oldValue,
+      newValue,
+      options,
+      childPath,
+      ancestors,
+    );
     if (childDiff.type !== DiffType.UNCHANGED) {
       hasChanges = true;
     }
-
     children.push(childDiff);
   }
 
@@ -123,68 +416,105 @@ function compareObjects(
     return {
       type: DiffType.CHANGED,
       path,
-      oldValue: oldObj,
-      newValue: newObj,
+      oldValue: oldMap,
+      newValue: newMap,
       children,
     };
   }
 
-  return { type: DiffType.UNCHANGED, path, oldValue: oldObj, newValue: newObj };
+  return { type: DiffType.UNCHANGED, path, oldValue: oldMap, newValue: newMap };
 }
 
 /**
- * Compare two arrays and generate a diff
- * Positional comparison only (no reordering/LCS); string similarity handled per element
+ * Compare two sets by membership. Members found in both sets (by identity,
+ * or deep equality for objects) are unchanged, the others are ADDED or
+ * REMOVED. Children are listed in the new set's order under their index in
+ * it, followed by removed members under their index in the old set.
  */
-function compareArrays(
-  oldArray: SerializableValue[],
-  newArray: SerializableValue[],
+function compareSets(
+  oldSet: Set<SerializableValue>,
+  newSet: Set<SerializableValue>,
   options: DiffOptions,
   path: string[],
+  ancestors: Ancestors,
 ): DiffResult {
-  // Simple case: arrays of different lengths
-  if (oldArray.length !== newArray.length) {
-    const children: DiffResult[] = [];
-    const maxLength = Math.max(oldArray.length, newArray.length);
-
-    for (let i = 0; i < maxLength; i++) {
-      const childPath = [...path, i.toString()];
-      if (i >= oldArray.length) {
-        children.push({
-          type: DiffType.ADDED,
-          path: childPath,
-          newValue: newArray[i],
-        });
-      } else if (i >= newArray.length) {
-        children.push({
-          type: DiffType.REMOVED,
-          path: childPath,
-          oldValue: oldArray[i],
-        });
-      } else {
-        children.push(createDiff(oldArray[i], newArray[i], options, childPath));
-      }
+  const oldItems = [...oldSet];
+  const newItems = [...newSet];
+  const pairs = pairMembers(oldItems, newItems, (candidate, item, newIndex) =>
+    isEqual(
+      candidate,
+      item,
+      options,
+      [...path, newIndex.toString()],
+      ancestors,
+    ),
+  );
+  const paired = new Set(pairs);
+
+  const children: DiffResult[] = newItems.map((item, newIndex) => {
+    const childPath = [...path, newIndex.toString()];
+    const oldIndex = pairs[newIndex];
+    return oldIndex !== undefined
+      ? createDiff(oldItems[oldIndex], item, options, childPath, ancestors)
+      : { type: DiffType.ADDED, path: childPath, newValue: item };
+  });
+  oldItems.forEach((item, oldIndex) => {
+    if (!paired.has(oldIndex)) {
+      children.push({
+        type: DiffType.REMOVED,
+        path: [...path, oldIndex.toString()],
+        oldValue: item,
+      });
     }
+  });
 
+  if (children.some((child) => child.type !== DiffType.UNCHANGED)) {
     return {
       type: DiffType.CHANGED,
       path,
-      oldValue: oldArray,
-      newValue: newArray,
+      oldValue: oldSet,
+      newValue: newSet,
       children,
     };
   }
 
-  // For arrays of primitive values or objects, compare each element
+  return { type: DiffType.UNCHANGED, path, oldValue: oldSet, newValue: newSet };
+}
+
+/**
+ * Compare two objects and generate a diff
+ */
+function compareObjects(
+  oldObj: Record<string, SerializableValue>,
+  newObj: Record<string, SerializableValue>,
+  options: DiffOptions,
+  path: string[],
+  ancestors: Ancestors,
+): DiffResult {
+  const isIgnored = (key: string) =>
+    isIgnoredPath(options, [...path, key], oldObj[key], newObj[key]);
+
+  const allKeys = new Set([
+    ...Object.keys(oldObj).filter((key) => !isIgnored(key)),
+    ...Object.keys(newObj).filter((key) => !isIgnored(key)),
+  ]);
+
   const children: DiffResult[] = [];
   let hasChanges = false;
 
-  for (let i = 0; i < oldArray.length; i++) {
-    const childPath = [...path, i.toString()];
-    const oldValue = oldArray[i];
-    const newValue = newArray[i];
+  for (const key of allKeys) {
+    const childPath = [...path, key];
+    const oldValue = oldObj[key];
+    const newValue = newObj[key];
+
+    const childDiff = createDiff(
+      oldValue,
+      newValue,
+      options,
+      childPath,
+      ancestors,
+    );
 
-    const childDiff = createDiff(oldValue, newValue, options, childPath);
     if (childDiff.type !== DiffType.UNCHANGED) {
       hasChanges = true;
     }
@@ -193,6 +523,44 @@ function compareArrays(
   }
 
   if (hasChanges) {
+    return {
+      type: DiffType.CHANGED,
+      path,
+      oldValue: oldObj,
+      newValue: newObj,
+      children,
+    };
+  }
+
+  return { type: DiffType.UNCHANGED, path, oldValue: oldObj, newValue: newObj };
+}
+
+/**
+ * Compare two arrays and generate a diff. Elements are aligned by
+ * matchArrays: positionally by default, by `arrayKey` or by
+ * `arrayMode: 'lcs'`. Elements aligned by key or LCS record their
+ * `meta.fromIndex`/`meta.toIndex` when matched, elements matched by key
+ * their `meta.key` too.
+ */
+function compareArrays(
+  oldArray: SerializableValue[],
+  newArray: SerializableValue[],
+  options: DiffOptions,
+  path: string[],
+  ancestors: Ancestors,
+): DiffResult {
+  const { mode, matches } = matchArrays(
+    oldArray,
+    newArray,
+    options,
+    path,
+    ancestors,
+  );
+  const children = matches.map((match) =>
+    compareElements(match, mode, oldArray, newArray, options, path, ancestors),
+  );
+
+  if (children.some((child) => child.type !== DiffType.UNCHANGED)) {
     return {
       type: DiffType.CHANGED,
       path,
@@ -209,3 +577,72 @@ function compareArrays(
     newValue: newArray,
   };
 }
+
+/**
+ * Diff the elements of one match: matched elements are diffed recursively,
+ * moved ones (and unchanged keyed ones that left their order) are reported
+ * as MOVED and the others as REMOVED/ADDED
+ */
+function compareElements(
+  match: ElementMatch,
+  mode: ArrayMode,
+  oldArray: SerializableValue[],
+  newArray: SerializableValue[],
+  options: DiffOptions,
+  path: string[],
+  ancestors: Ancestors,
+): DiffResult {
+  const childPath = [...path, elementSegment(match)];
+  const keyMeta = mode === 'key' && match.type !== 'move' && { key: match.key };
+
+  switch (match.type) {
+    case 'match': {
+      const { oldIndex: fromIndex, newIndex: toIndex } = match;
+      const childDiff = createDiff(
+        oldArray[fromIndex],
+        newArray[toIndex],
+        options,
+        childPath,
+        ancestors,
+      );
+      if (mode === 'position') {
+        return childDiff;
+      }
+      if (match.moved && childDiff.type === DiffType.UNCHANGED) {
+        return {
+          type: DiffType.MOVED,
+          path: childPath,
+          oldValue: childDiff.oldValue,
+          newValue: childDiff.newValue,
+          meta: { ...keyMeta, fromIndex, toIndex },
+        };
+      }
+      return {
+        ...childDiff,
+        meta: { ...childDiff.meta, ...keyMeta, fromIndex, toIndex },
+      };
+    }
+    case 'move':
+      return {
+        type: DiffType.MOVED,
+        path: childPath,
+        oldValue: oldArray[match.oldIndex],
+        newValue: newArray[match.newIndex],
+        meta: { fromIndex: match.oldIndex, toIndex: match.newIndex },
+      };
+    case 'delete':
+      return {
+        type: DiffType.REMOVED,
+        path: childPath,
+        oldValue: oldArray[match.oldIndex],
+        ...(keyMeta && { meta: { ...keyMeta, fromIndex: match.oldIndex } }),
+      };
+    case 'insert':
+      return {
+        type: DiffType.ADDED,
+        path: childPath,
+        newValue: newArray[match.newIndex],
+        ...(keyMeta && { meta: { ...keyMeta, toIndex: match.newIndex } }),
+      };
+  }
+}
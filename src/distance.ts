@@ -0,0 +1,125 @@
+import leven from 'leven';
+import { DiffOptions } from './types';
+
+/**
+ * Levenshtein distance and similarity of two strings, bounded by
+ * `maxLevenLength` and `levenThreshold`. Strings longer than
+ * `maxLevenLength`, or further apart than `levenThreshold` edits, are
+ * measured by their common prefix and suffix instead: the distance is then
+ * an upper bound, the similarity a lower bound, and `approximate` is set.
+ *
+ * @param oldValue - The original string
+ * @param newValue - The new string
+ * @param options - Configuration options
+ * @returns Distance, similarity ratio (0-1) and whether they are estimates
+ */
+export function measureStrings(
+  oldValue: string,
+  newValue: string,
+  options: DiffOptions,
+): { distance: number; similarity: number; approximate: boolean } {
+  const { maxLevenLength = Infinity, levenThreshold } = options;
+  const maxLength = Math.max(oldValue.length, newValue.length);
+  const ratio = (distance: number) =>
+    maxLength > 0 ? 1 - distance / maxLength : 1;
+
+  if (maxLength <= maxLevenLength) {
+    const distance =
+      levenThreshold === undefined
+        ? leven(oldValue, newValue)
+        : boundedLeven(oldValue, newValue, levenThreshold);
+    if (distance !== undefined) {
+      return { distance, similarity: ratio(distance), approximate: false };
+    }
+  }
+
+  const { prefix, suffix } = commonAffixes(oldValue, newValue);
+  const distance = maxLength - prefix - suffix;
+  return { distance, similarity: ratio(distance), approximate: true };
+}
+
+/**
+ * Levenshtein distance if it is at most `max`, computed over the diagonal
+ * band of width `2 * max + 1` only and abandoned as soon as every cell of a
+ * row exceeds `max`: O(n * max) time instead of O(n * m)
+ *
+ * @returns The distance, or undefined when it exceeds `max`
+ */
+function boundedLeven(a: string, b: string, max: number): number | undefined {
+  const { prefix, suffix } = commonAffixes(a, b);
+  let short = a.slice(prefix, a.length - suffix);
+  let long = b.slice(prefix, b.length - suffix);
+  if (short.length > long.length) {
+    [short, long] = [long, short];
+  }
+
+  const n = short.length;
+  const m = long.length;
+  if (m - n > max) {
+    return undefined;
+  }
+  if (n === 0) {
+    return m;
+  }
+
+  // Cells outside the band hold `max + 1`, which is as good as infinite
+  const limit = max + 1;
+  let previous = new Uint32Array(m + 1);
+  let current = new Uint32Array(m + 1);
+  for (let j = 0; j <= m; j++) {
+    previous[j] = Math.min(j, limit);
+  }
+
+  for (let i = 1; i <= n; i++) {
+    const from = Math.max(1, i - max);
+    const to = Math.min(m, i + max);
+    current[from - 1] = from === 1 ? Math.min(i, limit) : limit;
+    let rowMin = current[from - 1];
+
+    const char = short.charCodeAt(i - 1);
+    for (let j = from; j <= to; j++) {
+      const cost = char === long.charCodeAt(j - 1) ? 0 : 1;
+      const value = Math.min(
+        previous[j - 1] + cost,
+        previous[j] + 1,
+        current[j - 1] + 1,
+        limit,
+      );
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (to < m) {
+      current[to + 1] = limit;
+    }
+    if (rowMin > max) {
+      return undefined;
+    }
+
+    [previous, current] = [current, previous];
+  }
+
+  return previous[m] <= max ? previous[m] : undefined;
+}
+
+/**
+ * Lengths of the common prefix and suffix of two strings, not counting any
+ * character twice
+ */
+function commonAffixes(
+  a: string,
+  b: string,
+): { prefix: number; suffix: number } {
+  const length = Math.min(a.length, b.length);
+  let prefix = 0;
+  while (prefix < length && a.charCodeAt(prefix) === b.charCodeAt(prefix)) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < length - prefix &&
+    a.charCodeAt(a.length - 1 - suffix) === b.charCodeAt(b.length - 1 - suffix)
+  ) {
+    suffix++;
+  }
+  return { prefix, suffix };
+}
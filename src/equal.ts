@@ -0,0 +1,417 @@
+import {
+  Ancestors,
+  createAncestors,
+  findCycle,
+  isReference,
+  withinAncestors,
+} from './cycles';
+import {
+  elementSegment,
+  matchByKey,
+  matchByPosition,
+  pairMembers,
+} from './matching';
+import {
+  comparatorVerdict,
+  isIgnoredPath,
+  resolveArrayKey,
+  toleranceAt,
+  usesPaths,
+} from './paths';
+import { DiffOptions, SerializableValue, ValueType } from './types';
+import {
+  isJsonConvertible,
+  isNativeObject,
+  isSameNativeValue,
+  isTypedArray,
+  isWithinTolerance,
+  jsonForm,
+  toLooseNumber,
+  valueType,
+} from './utils';
+
+/**
+ * Check whether createDiff would report two values as unchanged, without
+ * building the diff. The walk stops at the first difference, never computes
+ * string distances and only builds paths when an option matches on them.
+ *
+ * @param oldValue - The original value to compare
+ * @param newValue - The new value to compare against
+ * @param options - Configuration options
+ * @param path - Path of the values in the object tree
+ * @param ancestors - Objects being compared by the enclosing calls
+ * @returns True when the values are equal under the options
+ */
+export function isEqual(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  options: DiffOptions = {},
+  path: string[] = [],
+  ancestors: Ancestors = createAncestors(),
+): boolean {
+  return equals(
+    oldValue,
+    newValue,
+    options,
+    usesPaths(options) ? path : undefined,
+    ancestors,
+  );
+}
+
+/**
+ * A key shared by every pair of values isEqual reports as equal, to sort
+ * candidates into buckets before comparing them: the kind of the value and
+ * its primitive contents one level deep. Undefined when an option makes
+ * values with different contents equal, as every value may then match.
+ *
+ * @param value - The value to key
+ * @param options - Configuration options
+ * @returns The key, or undefined when values cannot be told apart cheaply
+ */
+export function equalityKey(
+  value: SerializableValue,
+  options: DiffOptions,
+): string | undefined {
+  const {
+    keysOnly = false,
+    ignoreValues = false,
+    strictTypes = true,
+    tolerance,
+    arrayKey,
+  } = options;
+  if (usesPaths(options) || keysOnly || ignoreValues || !strictTypes) {
+    return undefined;
+  }
+  if (tolerance !== undefined && tolerance !== 0) {
+    return undefined;
+  }
+
+  const shallowKey = (item: SerializableValue): string => {
+    const converted = fromJson(item);
+    return isReference(converted)
+      ? String(valueType(converted))
+      : `${typeof converted}:${String(converted)}`;
+  };
+
+  const converted = fromJson(value);
+  if (Array.isArray(converted)) {
+    // Arrays matched by key may hold their elements in any order
+    return arrayKey === undefined
+      ? `array[${converted.map(shallowKey).join(',')}]`
+      : `array[${converted.length}]`;
+  }
+  if (isNativeObject(converted) || !isReference(converted)) {
+    return shallowKey(converted);
+  }
+  const record = converted as Record<string, SerializableValue>;
+  const entries = Object.keys(record)
+    .filter((key) => record[key] !== undefined)
+    .sort()
+    .map((key) => `${JSON.stringify(key)}:${shallowKey(record[key])}`);
+  return `object{${entries.join(',')}}`;
+}
+
+function fromJson(value: SerializableValue): SerializableValue {
+  while (isJsonConvertible(value)) {
+    value = value.toJSON();
+  }
+  return value;
+}
+
+/**
+ * Deep equality following the rules of createDiff. `path` is undefined when
+ * no option needs it.
+ */
+function equals(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  options: DiffOptions,
+  path: string[] | undefined,
+  ancestors: Ancestors,
+): boolean {
+  if (oldValue === undefined || newValue === undefined) {
+    return oldValue === newValue;
+  }
+
+  const verdict = path && comparatorVerdict(options, path, oldValue, newValue);
+  if (verdict) {
+    return verdict.equal;
+  }
+
+  if (isJsonConvertible(oldValue) || isJsonConvertible(newValue)) {
+    return equals(
+      jsonForm(oldValue),
+      jsonForm(newValue),
+      options,
+      path,
+      ancestors,
+    );
+  }
+
+  const oldType = valueType(oldValue);
+  const newType = valueType(newValue);
+  if (
+    oldType !== newType &&
+    oldType &&
+    newType &&
+    oldValue !== null &&
+    newValue !== null
+  ) {
+    return equalTypes(oldValue, newValue, oldType, newType, options);
+  }
+
+  if (isReference(oldValue) && isReference(newValue)) {
+    const cycle = findCycle(ancestors, oldValue, newValue);
+    if (cycle) {
+      return cycle.oldTarget === cycle.newTarget;
+    }
+
+    // The registered path only has to be unique to this comparison
+    return withinAncestors(ancestors, oldValue, newValue, path ?? [], () =>
+      equalValues(oldValue, newValue, options, path, ancestors),
+    );
+  }
+
+  return equalValues(oldValue, newValue, options, path, ancestors);
+}
+
+/**
+ * Values of different kinds are only equal when their values are ignored
+ * or, without `strictTypes`, when they hold the same number
+ */
+function equalTypes(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  oldType: ValueType,
+  newType: ValueType,
+  options: DiffOptions,
+): boolean {
+  const {
+    keysOnly = false,
+    ignoreValues = false,
+    strictTypes = true,
+  } = options;
+  const isContainer = (type: ValueType) =>
+    type === 'array' || type === 'object' || type === 'map' || type === 'set';
+
+  if (
+    (keysOnly || ignoreValues) &&
+    !(isContainer(oldType) && isContainer(newType))
+  ) {
+    return true;
+  }
+  if (!strictTypes) {
+    const oldNumber = toLooseNumber(oldValue);
+    return oldNumber !== undefined && oldNumber === toLooseNumber(newValue);
+  }
+  return false;
+}
+
+function equalValues(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  options: DiffOptions,
+  path: string[] | undefined,
+  ancestors: Ancestors,
+): boolean {
+  const { keysOnly = false, ignoreValues = false } = options;
+
+  if (isNativeObject(oldValue) || isNativeObject(newValue)) {
+    return equalNative(oldValue, newValue, options, path, ancestors);
+  }
+
+  if (
+    typeof oldValue !== 'object' ||
+    typeof newValue !== 'object' ||
+    oldValue === null ||
+    newValue === null
+  ) {
+    if (keysOnly || ignoreValues || oldValue === newValue) {
+      return true;
+    }
+    return (
+      typeof oldValue === 'number' &&
+      typeof newValue === 'number' &&
+      isWithinTolerance(
+        oldValue,
+        newValue,
+        toleranceAt(options, path ?? [], oldValue, newValue),
+      )
+    );
+  }
+
+  if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    return equalArrays(oldValue, newValue, options, path, ancestors);
+  }
+
+  return equalObjects(
+    oldValue as Record<string, SerializableValue>,
+    newValue as Record<string, SerializableValue>,
+    options,
+    path,
+    ancestors,
+  );
+}
+
+function equalNative(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  options: DiffOptions,
+  path: string[] | undefined,
+  ancestors: Ancestors,
+): boolean {
+  const { keysOnly = false, ignoreValues = false } = options;
+
+  if (oldValue instanceof Map && newValue instanceof Map) {
+    return equalMaps(oldValue, newValue, options, path, ancestors);
+  }
+  if (oldValue instanceof Set && newValue instanceof Set) {
+    return equalSets(oldValue, newValue, options, path, ancestors);
+  }
+
+  const isScalar = (value: SerializableValue) =>
+    typeof value !== 'object' ||
+    value === null ||
+    value instanceof Date ||
+    value instanceof RegExp ||
+    isTypedArray(value);
+
+  if (
+    (keysOnly || ignoreValues) &&
+    (isScalar(oldValue) || isScalar(newValue))
+  ) {
+    return true;
+  }
+  return isSameNativeValue(oldValue, newValue);
+}
+
+function equalMaps(
+  oldMap: Map<SerializableValue, SerializableValue>,
+  newMap: Map<SerializableValue, SerializableValue>,
+  options: DiffOptions,
+  path: string[] | undefined,
+  ancestors: Ancestors,
+): boolean {
+  const equalEntry = (key: SerializableValue) => {
+    const childPath = path && [...path, String(key)];
+    const oldValue = oldMap.get(key);
+    const newValue = newMap.get(key);
+    return (
+      (childPath !== undefined &&
+        isIgnoredPath(options, childPath, oldValue, newValue)) ||
+      equals(oldValue, newValue, options, childPath, ancestors)
+    );
+  };
+
+  for (const key of oldMap.keys()) {
+    if (!equalEntry(key)) return false;
+  }
+  for (const key of newMap.keys()) {
+    if (!oldMap.has(key) && !equalEntry(key)) return false;
+  }
+  return true;
+}
+
+/**
+ * Sets are equal when every member of the new set pairs up with a distinct
+ * member of the old set: the same value, or else the first deep-equal one
+ */
+function equalSets(
+  oldSet: Set<SerializableValue>,
+  newSet: Set<SerializableValue>,
+  options: DiffOptions,
+  path: string[] | undefined,
+  ancestors: Ancestors,
+): boolean {
+  if (oldSet.size !== newSet.size) {
+    return false;
+  }
+
+  const newItems = [...newSet];
+  const pairs = pairMembers(
+    [...oldSet],
+    newItems,
+    (candidate, item, newIndex) =>
+      equals(
+        candidate,
+        item,
+        options,
+        path && [...path, newIndex.toString()],
+        ancestors,
+      ),
+  );
+
+  // Members of both sets are still compared, as comparators may object
+  return newItems.every(
+    (item, newIndex) =>
+      pairs[newIndex] !== undefined &&
+      (!oldSet.has(item) ||
+        equals(
+          item,
+          item,
+          options,
+          path && [...path, newIndex.toString()],
+          ancestors,
+        )),
+  );
+}
+
+function equalObjects(
+  oldObj: Record<string, SerializableValue>,
+  newObj: Record<string, SerializableValue>,
+  options: DiffOptions,
+  path: string[] | undefined,
+  ancestors: Ancestors,
+): boolean {
+  const equalKey = (key: string) => {
+    const childPath = path && [...path, key];
+    return (
+      (childPath !== undefined &&
+        isIgnoredPath(options, childPath, oldObj[key], newObj[key])) ||
+      equals(oldObj[key], newObj[key], options, childPath, ancestors)
+    );
+  };
+
+  for (const key of Object.keys(oldObj)) {
+    if (!equalKey(key)) return false;
+  }
+  for (const key of Object.keys(newObj)) {
+    if (!Object.hasOwn(oldObj, key) && !equalKey(key)) return false;
+  }
+  return true;
+}
+
+/**
+ * Arrays are equal when their elements are equal position by position, or
+ * with `arrayKey`, when every element has a counterpart with the same key in
+ * the same order. An LCS alignment of such arrays finds nothing to move
+ * either.
+ */
+function equalArrays(
+  oldArray: SerializableValue[],
+  newArray: SerializableValue[],
+  options: DiffOptions,
+  path: string[] | undefined,
+  ancestors: Ancestors,
+): boolean {
+  if (oldArray.length !== newArray.length) {
+    return false;
+  }
+
+  const selectKey = resolveArrayKey(options, path ?? []);
+  const matches =
+    (selectKey && matchByKey(oldArray, newArray, selectKey)) ??
+    matchByPosition(oldArray, newArray);
+  return matches.every(
+    (match) =>
+      match.type === 'match' &&
+      !match.moved &&
+      equals(
+        oldArray[match.oldIndex],
+        newArray[match.newIndex],
+        options,
+        path && [...path, elementSegment(match)],
+        ancestors,
+      ),
+  );
+}
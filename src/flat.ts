@@ -0,0 +1,63 @@
+import { formatJsonPath, formatPointer } from './pointer';
+import { DiffResult, DiffType, FlatChange, PathSegment } from './types';
+
+/**
+ * List the changed leaves of a diff result in order, each with a typed path.
+ * Elements of arrays and sets are addressed by their index in the array
+ * that holds them: the new one, or the old one for removed elements.
+ *
+ * @param result - A diff result from `diffRaw`
+ * @returns One entry per added, removed, changed or moved value
+ */
+export function flattenDiff(result: DiffResult): FlatChange[] {
+  const changes: FlatChange[] = [];
+  collectChanges(result, [], changes);
+  return changes;
+}
+
+function collectChanges(
+  node: DiffResult,
+  path: PathSegment[],
+  changes: FlatChange[],
+): void {
+  const { children = [] } = node;
+
+  if (children.length > 0) {
+    const isList = (value: unknown) =>
+      Array.isArray(value) || value instanceof Set;
+    const indexed = isList(node.oldValue) && isList(node.newValue);
+
+    for (const child of children) {
+      const segment = indexed
+        ? elementIndex(child)
+        : (child.path?.[child.path.length - 1] ?? '');
+      collectChanges(child, [...path, segment], changes);
+    }
+    return;
+  }
+
+  if (node.type === DiffType.UNCHANGED) {
+    return;
+  }
+
+  const change: FlatChange = {
+    type: node.type,
+    path,
+    pointer: formatPointer(path),
+    jsonPath: formatJsonPath(path),
+  };
+  if (node.oldValue !== undefined) change.oldValue = node.oldValue;
+  if (node.newValue !== undefined) change.newValue = node.newValue;
+  if (node.meta) change.meta = node.meta;
+  changes.push(change);
+}
+
+/**
+ * Index of an element in the array holding it: LCS and keyed children
+ * record it in meta, positional children in their path
+ */
+function elementIndex(child: DiffResult): number {
+  const { fromIndex, toIndex } = child.meta ?? {};
+  const index = child.type === DiffType.REMOVED ? fromIndex : toIndex;
+  return index ?? Number(child.path?.[child.path.length - 1]);
+}
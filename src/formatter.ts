@@ -1,12 +1,12 @@
-import { DiffOptions, DiffResult, DiffType } from './types';
-
-// ANSI color codes
-const colors = {
-  reset: '\x1b[0m',
-  red: '\x1b[31m',
-  green: '\x1b[32m',
-  gray: '\x1b[90m',
-};
+import { alignChildren } from './alignment';
+import { colors, Palette, paletteFor } from './colors';
+import { createHunks } from './hunks';
+import { EditOperation } from './myers';
+import { renderDiff } from './render';
+import { defaultRenderer, resolveRenderer } from './renderers';
+import { collectStats, formatStats } from './stats';
+import { DiffOptions, DiffResult, MergeConflict, RenderContext } from './types';
+import { formatPrimitive, jsonReplacer } from './values';
 
 /**
  * Format a diff result as a string with optional colors and formatting
@@ -18,395 +18,337 @@ export function formatDiff(
   diff: DiffResult,
   options: DiffOptions = {},
 ): string {
-  const { color = true, full = false, withSimilarity = false } = options;
-
-  // For unchanged values with no children, we may skip them unless full output is requested
-  if (
-    diff.type === DiffType.UNCHANGED &&
-    !full &&
-    (!diff.children || diff.children.length === 0)
-  ) {
-    return '';
+  const { summary = false, format } = options;
+  const renderer =
+    format === 'unified' ? defaultRenderer : resolveRenderer(format);
+  const context: RenderContext = { path: diff.path ?? [], depth: 0, options };
+
+  const output =
+    format === 'unified'
+      ? formatUnified(diff, options)
+      : renderDiff(diff, renderer, context);
+  let summaryLine: string | undefined;
+  if (summary) {
+    const stats = collectStats(diff);
+    summaryLine = renderer.summary
+      ? renderer.summary(stats, context)
+      : formatStats(stats);
   }
 
-  // Handle primitive values
-  if (!diff.children || diff.children.length === 0) {
-    return formatValue(diff, color, withSimilarity);
+  if (renderer.document && (output || summaryLine)) {
+    return renderer.document(diff, context, output, summaryLine);
   }
-
-  // Handle objects and arrays
-  return formatComplex(diff, options, 0);
+  return [output, summaryLine].filter(Boolean).join('\n');
 }
 
 /**
- * Format a primitive value diff (added, removed, changed)
+ * Format a diff result as a unified diff of both values pretty-printed as
+ * JSON, ready for `patch` or a code-review tool. Hunks are located from the
+ * diff tree instead of re-diffing the text, so arrays follow `arrayMode` and
+ * `arrayKey`. Keys and values hidden by `ignoreKeys`, `keysOnly` or
+ * `ignoreValues` still show up where their JSON text differs, as the patch
+ * has to reproduce the new text. Keys only present in the new value are
+ * listed after the keys of the old value.
+ *
+ * @param diff - The diff result to format
+ * @param options - Formatting options (`color`, `theme`, `contextLines`,
+ * labels)
+ * @returns The unified diff, or an empty string when the texts are equal
  */
-function formatValue(
+export function formatUnified(
   diff: DiffResult,
-  useColor: boolean,
-  withSimilarity: boolean = false,
+  options: DiffOptions = {},
 ): string {
-  const prefix = getPrefix(diff.type);
-  let value = '';
-
-  switch (diff.type) {
-    case DiffType.ADDED:
-      value = formatPrimitive(diff.newValue);
-      return useColor
-        ? `${colors.green}${prefix} ${value}${colors.reset}`
-        : `${prefix} ${value}`;
-
-    case DiffType.REMOVED:
-      value = formatPrimitive(diff.oldValue);
-      return useColor
-        ? `${colors.red}${prefix} ${value}${colors.reset}`
-        : `${prefix} ${value}`;
-
-    case DiffType.CHANGED:
-      const oldVal = formatPrimitive(diff.oldValue);
-      const newVal = formatPrimitive(diff.newValue);
+  const { contextLines = 3, oldLabel = 'a', newLabel = 'b' } = options;
+  const script: LineScript = { operations: [], oldLines: [], newLines: [] };
+
+  emitJson(diff, diff.oldValue, diff.newValue, '', '', false, false, script);
+
+  const hunks = createHunks(
+    script.operations,
+    script.oldLines,
+    script.newLines,
+    contextLines,
+  );
+  if (hunks.length === 0) {
+    return '';
+  }
 
-      // Add similarity information for strings if available and withSimilarity is true
-      let similarityInfo = '';
-      if (
-        withSimilarity &&
-        diff.meta?.similarity !== undefined &&
-        typeof diff.oldValue === 'string' &&
-        typeof diff.newValue === 'string'
-      ) {
-        const similarity = Math.round(diff.meta.similarity * 100);
-        similarityInfo = useColor
-          ? `${colors.gray} (${similarity}% similar)${colors.reset}`
-          : ` (${similarity}% similar)`;
+  const palette = paletteFor(options);
+  const paint = (text: string, role: keyof Palette) =>
+    palette ? `${palette[role]}${text}${colors.reset}` : text;
+  const lines = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  for (const hunk of hunks) {
+    lines.push(
+      paint(
+        `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+        'muted',
+      ),
+    );
+    for (const line of hunk.lines) {
+      if (line.type === 'insert') {
+        lines.push(paint(`+${line.value}`, 'added'));
+      } else if (line.type === 'delete') {
+        lines.push(paint(`-${line.value}`, 'removed'));
+      } else {
+        lines.push(` ${line.value}`);
       }
-
-      // Git-style diff format: +new value followed by -old value
-      const newLine = useColor
-        ? `${colors.green}+ ${newVal}${similarityInfo}${colors.reset}`
-        : `+ ${newVal}${similarityInfo}`;
-
-      const oldLine = useColor
-        ? `${colors.red}- ${oldVal}${colors.reset}`
-        : `- ${oldVal}`;
-
-      return `${newLine}\n${oldLine}`;
-
-    default:
-      value = formatPrimitive(diff.newValue ?? diff.oldValue);
-      return useColor
-        ? `${colors.gray}${prefix} ${value}${colors.reset}`
-        : `${prefix} ${value}`;
+    }
   }
+
+  return lines.join('\n');
 }
 
 /**
- * Format complex objects and arrays
- * For objects, use Git-like diff format with JSON-style indentation
+ * Old and new text lines collected while walking a diff tree, with the edit
+ * script that relates them
  */
-function formatComplex(
-  diff: DiffResult,
-  options: DiffOptions,
-  indent: number = 0,
-): string {
-  const { full = false } = options;
-
-  // Early return for unchanged primitives
-  if (
-    diff.type === DiffType.UNCHANGED &&
-    !full &&
-    (!diff.children ||
-      diff.children.length === 0 ||
-      (typeof diff.oldValue !== 'object' && typeof diff.newValue !== 'object'))
-  ) {
-    return '';
-  }
+interface LineScript {
+  operations: EditOperation[];
+  oldLines: string[];
+  newLines: string[];
+}
 
-  return Array.isArray(diff.oldValue) || Array.isArray(diff.newValue)
-    ? formatArrayDiff(diff, options, indent)
-    : formatObjectDiff(diff, options, indent);
+function keepLine(script: LineScript, line: string): void {
+  script.operations.push({
+    type: 'equal',
+    oldIndex: script.oldLines.push(line) - 1,
+    newIndex: script.newLines.push(line) - 1,
+  });
 }
 
-/**
- * Helper to render "+ then -" blocks for changed values.
- */
-function renderChangedBlock(
-  newValue: unknown,
-  oldValue: unknown,
-  options: { color: boolean; withSimilarity: boolean },
-  indent: string,
-  similarity?: number,
-  key?: string,
-): string {
-  const { color, withSimilarity } = options;
-  let similarityInfo = '';
-  if (withSimilarity && similarity !== undefined) {
-    similarityInfo = color
-      ? `${colors.gray} (${Math.round(similarity * 100)}% similar)${colors.reset}`
-      : ` (${Math.round(similarity * 100)}% similar)`;
+function deleteLines(script: LineScript, lines: string[]): void {
+  for (const line of lines) {
+    script.operations.push({
+      type: 'delete',
+      oldIndex: script.oldLines.push(line) - 1,
+    });
   }
+}
 
-  const keyPrefix = key ? `${key}: ` : '';
-  const newLine = color
-    ? `${indent}${colors.green}+ ${keyPrefix}${formatPrimitive(newValue)}${similarityInfo}${colors.reset}`
-    : `${indent}+ ${keyPrefix}${formatPrimitive(newValue)}${similarityInfo}`;
-  const oldLine = color
-    ? `${indent}${colors.red}- ${keyPrefix}${formatPrimitive(oldValue)}${colors.reset}`
-    : `${indent}- ${keyPrefix}${formatPrimitive(oldValue)}`;
-  return `${newLine}\n${oldLine}`;
+function insertLines(script: LineScript, lines: string[]): void {
+  for (const line of lines) {
+    script.operations.push({
+      type: 'insert',
+      newIndex: script.newLines.push(line) - 1,
+    });
+  }
 }
 
 /**
- * Format array diffs with proper indentation and Git-style markers
+ * Pretty-print a value as indented JSON lines, the first one prefixed with
+ * its property label and the last one followed by a comma when needed
  */
-function formatArrayDiff(
-  diff: DiffResult,
-  options: DiffOptions,
-  indent: number = 0,
-): string {
-  const { color = true, full = false, withSimilarity = false } = options;
-  const baseIndent = ' '.repeat(indent);
-  const innerIndent = ' '.repeat(indent + 2);
-  let result = `[\n`;
-  let visibleItems = 0;
-
-  if (diff.children) {
-    for (let i = 0; i < diff.children.length; i++) {
-      const child = diff.children[i];
-
-      // Skip unchanged items unless full output is requested
-      if (
-        child.type === DiffType.UNCHANGED &&
-        !full &&
-        (!child.children || child.children.length === 0)
-      ) {
-        continue;
-      }
-
-      if (child.children && child.children.length > 0) {
-        // Handle nested objects/arrays within the array
-        const nestedOutput = Array.isArray(child.newValue || child.oldValue)
-          ? formatArrayDiff(child, options, indent + 2)
-          : formatObjectDiff(child, options, indent + 2);
-
-        // Only add if there's actual content
-        if (nestedOutput.trim().length > 2) {
-          // More than just '[]' or '{}'
-          if (visibleItems > 0) {
-            result += ',\n';
-          }
-          result += innerIndent;
-          result += nestedOutput;
-          visibleItems++;
-        }
-      } else {
-        // Handle primitive values
-        if (visibleItems > 0) {
-          result += ',\n';
-        }
-
-        switch (child.type) {
-          case DiffType.ADDED:
-            result += color
-              ? `${innerIndent}${colors.green}+ ${formatPrimitive(child.newValue)}${colors.reset}`
-              : `${innerIndent}+ ${formatPrimitive(child.newValue)}`;
-            visibleItems++;
-            break;
-          case DiffType.REMOVED:
-            result += color
-              ? `${innerIndent}${colors.red}- ${formatPrimitive(child.oldValue)}${colors.reset}`
-              : `${innerIndent}- ${formatPrimitive(child.oldValue)}`;
-            visibleItems++;
-            break;
-          case DiffType.UNCHANGED:
-            // Special handling for ignored values (when using ignoreValues: true)
-            if (child.meta?.ignored && child.path) {
-              result += color
-                ? `${innerIndent}${colors.gray}  ${child.path[child.path.length - 1] || ''}${colors.reset}`
-                : `${innerIndent}  ${child.path[child.path.length - 1] || ''}`;
-            } else {
-              result += color
-                ? `${innerIndent}${colors.gray}  ${formatPrimitive(child.newValue)}${colors.reset}`
-                : `${innerIndent}  ${formatPrimitive(child.newValue)}`;
-            }
-            visibleItems++;
-            break;
-          case DiffType.CHANGED:
-            result += renderChangedBlock(
-              child.newValue,
-              child.oldValue,
-              { color, withSimilarity },
-              innerIndent,
-              child.meta?.similarity,
-            );
-            visibleItems++;
-            break;
-        }
-      }
-    }
+function jsonLines(
+  value: unknown,
+  label: string,
+  indent: string,
+  comma: boolean,
+): string[] {
+  if (value === undefined) {
+    return [];
   }
 
-  if (visibleItems > 0) {
-    result += '\n';
+  const lines = (JSON.stringify(value, jsonReplacer(), 2) ?? 'null')
+    .split('\n')
+    .map((line, i) => `${indent}${i === 0 ? label : ''}${line}`);
+  if (comma) {
+    lines[lines.length - 1] += ',';
   }
-  result += `${baseIndent}]`;
-  return result;
+  return lines;
 }
 
 /**
- * Format object diffs with proper indentation and Git-style markers
+ * Emit the JSON lines of one node, descending into non-empty objects and
+ * arrays that have changed children and comparing everything else as text
  */
-function formatObjectDiff(
-  diff: DiffResult,
-  options: DiffOptions,
-  indent: number = 0,
-): string {
-  const { color = true, full = false, withSimilarity = false } = options;
-  const baseIndent = ' '.repeat(indent);
-  const innerIndent = ' '.repeat(indent + 2);
-  let result = `{\n`;
-  let visibleItems = 0;
-
-  if (diff.children) {
-    // First, filter out children that won't be displayed
-    const displayableChildren = diff.children.filter((child) => {
-      if (child.type !== DiffType.UNCHANGED) return true;
-      if (full) return true;
-      if (child.children && child.children.length > 0) return true;
-      const key = child.path?.[child.path.length - 1] || '';
-      if (options.outputKeys?.includes(key)) return true;
-      return false;
-    });
-
-    for (let i = 0; i < displayableChildren.length; i++) {
-      const child = displayableChildren[i];
-      const key = child.path?.[child.path.length - 1] || '';
-      const isLast = i === displayableChildren.length - 1;
-
-      // If we already added an item, and we're not at a new line, add a comma and new line
-      if (visibleItems > 0 && !result.endsWith('\n')) {
-        result += ',\n';
-      }
-
-      if (child.children && child.children.length > 0) {
-        // Handle nested objects/arrays
-        const nestedContent = Array.isArray(child.newValue || child.oldValue)
-          ? formatArrayDiff(child, options, indent + 2)
-          : formatObjectDiff(child, options, indent + 2);
-
-        // Only add if there's actual content in the nested structure
-        if (nestedContent.trim().length > 2) {
-          // More than just '{}' or '[]'
-          result += `${innerIndent}${key}: `;
-          result += nestedContent;
-          visibleItems++;
-        }
-      } else {
-        // Handle primitive values
-        switch (child.type) {
-          case DiffType.ADDED:
-            result += color
-              ? `${innerIndent}${colors.green}+ ${key}: ${formatPrimitive(child.newValue)}${colors.reset}`
-              : `${innerIndent}+ ${key}: ${formatPrimitive(child.newValue)}`;
-            visibleItems++;
-            break;
-          case DiffType.REMOVED:
-            result += color
-              ? `${innerIndent}${colors.red}- ${key}: ${formatPrimitive(child.oldValue)}${colors.reset}`
-              : `${innerIndent}- ${key}: ${formatPrimitive(child.oldValue)}`;
-            visibleItems++;
-            break;
-          case DiffType.CHANGED:
-            result += renderChangedBlock(
-              child.newValue,
-              child.oldValue,
-              { color, withSimilarity },
-              innerIndent,
-              child.meta?.similarity,
-              key,
-            );
-            visibleItems++;
-            break;
-          case DiffType.UNCHANGED:
-            if (full || options.outputKeys?.includes(key)) {
-              // Special handling for ignored values (when using ignoreValues: true)
-              if (child.meta?.ignored) {
-                result += color
-                  ? `${innerIndent}${colors.gray}  ${key}${colors.reset}`
-                  : `${innerIndent}  ${key}`;
-              } else {
-                result += color
-                  ? `${innerIndent}${colors.gray}  ${key}: ${formatPrimitive(child.newValue)}${colors.reset}`
-                  : `${innerIndent}  ${key}: ${formatPrimitive(child.newValue)}`;
-              }
-              visibleItems++;
-            }
-            break;
-        }
-      }
+function emitJson(
+  node: DiffResult | undefined,
+  oldValue: unknown,
+  newValue: unknown,
+  label: string,
+  indent: string,
+  oldComma: boolean,
+  newComma: boolean,
+  script: LineScript,
+): void {
+  const isContainer = (value: unknown) =>
+    typeof value === 'object' &&
+    value !== null &&
+    Object.keys(value).length > 0;
 
-      // Add comma if not the last item and not already ending with newline
-      if (!isLast && !result.endsWith('\n')) {
-        result += ',';
-      }
+  if (
+    node?.children &&
+    node.children.length > 0 &&
+    isContainer(oldValue) &&
+    isContainer(newValue) &&
+    Array.isArray(oldValue) === Array.isArray(newValue)
+  ) {
+    const open = Array.isArray(oldValue) ? '[' : '{';
+    const close = Array.isArray(oldValue) ? ']' : '}';
+
+    keepLine(script, `${indent}${label}${open}`);
+    if (Array.isArray(oldValue)) {
+      emitArrayEntries(node, oldValue, newValue as unknown[], indent, script);
+    } else {
+      emitObjectEntries(
+        node,
+        oldValue as Record<string, unknown>,
+        newValue as Record<string, unknown>,
+        indent,
+        script,
+      );
+    }
 
-      // Always ensure we end with a newline before the next item
-      if (!result.endsWith('\n')) {
-        result += '\n';
-      }
+    if (oldComma === newComma) {
+      keepLine(script, `${indent}${close}${oldComma ? ',' : ''}`);
+    } else {
+      deleteLines(script, [`${indent}${close}${oldComma ? ',' : ''}`]);
+      insertLines(script, [`${indent}${close}${newComma ? ',' : ''}`]);
     }
+    return;
   }
 
-  // Only add final newline if we have content
-  if (visibleItems > 0 && !result.endsWith('\n')) {
-    result += '\n';
+  const oldLines = jsonLines(oldValue, label, indent, oldComma);
+  const newLines = jsonLines(newValue, label, indent, newComma);
+
+  if (oldLines.join('\n') === newLines.join('\n')) {
+    oldLines.forEach((line) => keepLine(script, line));
+  } else {
+    deleteLines(script, oldLines);
+    insertLines(script, newLines);
   }
+}
 
-  result += `${baseIndent}}`;
-  return result;
+function emitObjectEntries(
+  node: DiffResult,
+  oldObj: Record<string, unknown>,
+  newObj: Record<string, unknown>,
+  indent: string,
+  script: LineScript,
+): void {
+  const childrenByKey = new Map(
+    (node.children ?? []).map((child) => [
+      child.path?.[child.path.length - 1],
+      child,
+    ]),
+  );
+  const oldKeys = Object.keys(oldObj).filter((k) => oldObj[k] !== undefined);
+  const newKeys = Object.keys(newObj).filter((k) => newObj[k] !== undefined);
+  let oldSeen = 0;
+  let newSeen = 0;
+
+  for (const key of new Set([...oldKeys, ...newKeys])) {
+    const oldValue = oldObj[key];
+    const newValue = newObj[key];
+    if (oldValue !== undefined) oldSeen++;
+    if (newValue !== undefined) newSeen++;
+
+    emitJson(
+      childrenByKey.get(key),
+      oldValue,
+      newValue,
+      `${JSON.stringify(key)}: `,
+      `${indent}  `,
+      oldSeen < oldKeys.length,
+      newSeen < newKeys.length,
+      script,
+    );
+  }
 }
 
-/**
- * Get the prefix for a diff type
- */
-function getPrefix(type: DiffType | string): string {
-  switch (type) {
-    case DiffType.ADDED:
-      return '+';
-    case DiffType.REMOVED:
-      return '-';
-    case DiffType.CHANGED:
-      return '!';
-    default:
-      return ' ';
+function emitArrayEntries(
+  node: DiffResult,
+  oldArray: unknown[],
+  newArray: unknown[],
+  indent: string,
+  script: LineScript,
+): void {
+  const childIndent = `${indent}  `;
+  let oldSeen = 0;
+  let newSeen = 0;
+
+  for (const step of alignChildren(node)) {
+    if (step.type === 'delete') {
+      oldSeen++;
+      deleteLines(
+        script,
+        jsonLines(
+          oldArray[step.oldIndex] ?? null,
+          '',
+          childIndent,
+          oldSeen < oldArray.length,
+        ),
+      );
+    } else if (step.type === 'insert') {
+      newSeen++;
+      insertLines(
+        script,
+        jsonLines(
+          newArray[step.newIndex] ?? null,
+          '',
+          childIndent,
+          newSeen < newArray.length,
+        ),
+      );
+    } else {
+      oldSeen++;
+      newSeen++;
+      emitJson(
+        step.child,
+        oldArray[step.oldIndex] ?? null,
+        newArray[step.newIndex] ?? null,
+        '',
+        childIndent,
+        oldSeen < oldArray.length,
+        newSeen < newArray.length,
+        script,
+      );
+    }
   }
 }
 
 /**
- * Format a primitive value for output
+ * Format merge conflicts as git-style conflict blocks (diff3 layout), one per
+ * conflicting path. A side that deleted the value has an empty section.
+ *
+ * @param conflicts - Conflicts returned by `merge`
+ * @param options - Formatting options (`color`, `theme`)
+ * @returns The conflict blocks separated by blank lines
  */
-function formatPrimitive(value: unknown): string {
-  if (value === undefined) {
-    return 'undefined';
-  }
-
-  if (value === null) {
-    return 'null';
-  }
-
-  if (typeof value === 'string') {
-    // Use JavaScript object notation with single quotes
-    return `'${value}'`;
-  }
-
-  if (typeof value === 'number' || typeof value === 'boolean') {
-    return value.toString();
-  }
-
-  // For objects and arrays, use properly formatted JavaScript object notation
-  if (typeof value === 'object') {
-    const json = JSON.stringify(value, null, 2);
-    return json;
-  }
-
-  return String(value);
+export function formatConflicts(
+  conflicts: MergeConflict[],
+  options: DiffOptions = {},
+): string {
+  const palette = paletteFor(options);
+  const paint = (text: string, role: keyof Palette) =>
+    palette ? `${palette[role]}${text}${colors.reset}` : text;
+
+  return conflicts
+    .map((conflict) => {
+      const label = conflict.path.length > 0 ? conflict.path.join('.') : '';
+      const side = (value: unknown, role: keyof Palette) =>
+        value === undefined
+          ? []
+          : [
+              paint(
+                label
+                  ? `${label}: ${formatPrimitive(value)}`
+                  : formatPrimitive(value),
+                role,
+              ),
+            ];
+
+      return [
+        paint('<<<<<<< ours', 'muted'),
+        ...side(conflict.ours, 'added'),
+        paint('||||||| base', 'muted'),
+        ...side(conflict.base, 'muted'),
+        paint('=======', 'muted'),
+        ...side(conflict.theirs, 'moved'),
+        paint('>>>>>>> theirs', 'muted'),
+      ].join('\n');
+    })
+    .join('\n\n');
 }
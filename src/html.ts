@@ -0,0 +1,291 @@
+import { formatStats } from './stats';
+import {
+  DiffHunk,
+  DiffSegment,
+  DiffType,
+  RenderContext,
+  Renderer,
+} from './types';
+import {
+  escapeHtml,
+  formatCollapsed,
+  formatNotes,
+  formatPrimitive,
+  ignoredLabel,
+  walkHunks,
+} from './values';
+
+/**
+ * Nested HTML markup with `dl-*` classes for styling. Every value is an
+ * element carrying its dotted path in `data-path`; changed values hold an
+ * added and a removed line. All text is escaped. With `highlight: true`
+ * the edited characters of changed strings are wrapped in `<ins>`/`<del>`.
+ */
+export const htmlRenderer: Renderer = {
+  objectOpen: (_result, context) =>
+    `<div class="dl-object"${dataPath(context)}>${openLine(context, '{')}`,
+  objectClose: () => closeLine('}'),
+  arrayOpen: (_result, context) =>
+    `<div class="dl-array"${dataPath(context)}>${openLine(context, '[')}`,
+  arrayClose: () => closeLine(']'),
+
+  added: (result, context) =>
+    element(
+      'dl-added',
+      context,
+      line('+', context.key, formatValue(result.newValue)),
+    ),
+
+  removed: (result, context) =>
+    element(
+      'dl-removed',
+      context,
+      line('-', context.key, formatValue(result.oldValue)),
+    ),
+
+  unchanged: (result, context) => {
+    const label = ignoredLabel(result, context);
+    if (label !== undefined) {
+      return element(
+        'dl-unchanged dl-ignored',
+        context,
+        line(' ', label, undefined),
+      );
+    }
+    return element(
+      'dl-unchanged',
+      context,
+      line(
+        ' ',
+        context.key,
+        formatValue(result.newValue ?? result.oldValue, result.meta?.circular),
+      ),
+    );
+  },
+
+  moved: (result, context) => {
+    const { fromIndex, toIndex } = result.meta ?? {};
+    return element(
+      'dl-moved',
+      context,
+      line('~', context.key, formatValue(result.newValue)) +
+        note(`moved from ${fromIndex} to ${toIndex}`),
+    );
+  },
+
+  collapsed: (result, context) =>
+    element(
+      'dl-collapsed',
+      context,
+      line(
+        ' ',
+        context.key,
+        escapeHtml(
+          formatCollapsed(result.newValue, result.meta?.changeCount ?? 0),
+        ),
+      ),
+    ),
+
+  changed: (result, context, annotation) => {
+    const { meta } = result;
+    const { highlight = false } = context.options;
+    const classes =
+      result.type === DiffType.TYPE_CHANGED
+        ? 'dl-changed dl-type-changed'
+        : 'dl-changed';
+
+    if (meta?.hunks) {
+      const label = context.key
+        ? `<span class="dl-key">${escapeHtml(context.key)}</span>:`
+        : '';
+      return element(
+        classes,
+        context,
+        `<div class="dl-line">${label}${annotation}</div>${renderHunks(meta.hunks)}`,
+      );
+    }
+
+    const inline = highlight ? meta?.segments : undefined;
+    const newText = inline
+      ? formatSegments(inline, 'insert')
+      : formatValue(result.newValue);
+    const oldText = inline
+      ? formatSegments(inline, 'delete')
+      : formatValue(result.oldValue);
+    return element(
+      classes,
+      context,
+      `<div class="dl-added">${line('+', context.key, newText)}${annotation}</div>` +
+        `<div class="dl-removed">${line('-', context.key, oldText)}</div>`,
+    );
+  },
+
+  annotate: (result, { options }) =>
+    formatNotes(result, options).map(note).join(''),
+
+  summary: (stats) =>
+    `<div class="dl-summary">${escapeHtml(formatStats(stats))}</div>`,
+
+  document: (_result, _context, body, summary) =>
+    `<div class="dl-diff">${[body, summary].filter(Boolean).join('\n')}</div>`,
+};
+
+/**
+ * Default stylesheet for the markup of `format: 'html'`, in the colors of
+ * the terminal output
+ */
+export const htmlStylesheet = `.dl-diff {
+  font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace;
+  font-size: 13px;
+  line-height: 1.5;
+  white-space: normal;
+}
+.dl-object > :not(.dl-line),
+.dl-array > :not(.dl-line),
+.dl-hunk {
+  margin-left: 2ch;
+}
+.dl-line,
+.dl-added,
+.dl-removed,
+.dl-unchanged,
+.dl-moved,
+.dl-collapsed,
+.dl-context,
+.dl-hunk-header {
+  white-space: pre-wrap;
+}
+.dl-added {
+  color: #1a7f37;
+  background: #e6ffec;
+}
+.dl-removed {
+  color: #cf222e;
+  background: #ffebe9;
+}
+.dl-changed {
+  border-left: 2px solid #d4a72c;
+}
+.dl-moved,
+.dl-collapsed {
+  color: #9a6700;
+}
+.dl-unchanged,
+.dl-context,
+.dl-hunk-header,
+.dl-note,
+.dl-summary {
+  color: #6e7781;
+}
+.dl-key {
+  font-weight: 600;
+}
+.dl-note {
+  margin-left: 1ch;
+}
+.dl-added ins,
+.dl-removed del {
+  text-decoration: none;
+  border-radius: 2px;
+}
+.dl-added ins {
+  background: #abf2bc;
+}
+.dl-removed del {
+  background: #ffcecb;
+}
+`;
+
+function dataPath({ path }: RenderContext): string {
+  return ` data-path="${escapeHtml(path.join('.'))}"`;
+}
+
+function element(
+  classes: string,
+  context: RenderContext,
+  content: string,
+): string {
+  return `<div class="${classes}"${dataPath(context)}>${content}</div>`;
+}
+
+/**
+ * A marker, optional key and optional (already escaped) value
+ */
+function line(
+  marker: string,
+  key: string | undefined,
+  value: string | undefined,
+): string {
+  const label =
+    key !== undefined && key !== ''
+      ? `<span class="dl-key">${escapeHtml(key)}</span>${value !== undefined ? ': ' : ''}`
+      : '';
+  const text =
+    value !== undefined ? `<span class="dl-value">${value}</span>` : '';
+  return `<span class="dl-marker">${marker}</span> ${label}${text}`;
+}
+
+function openLine(context: RenderContext, bracket: string): string {
+  const label = context.key
+    ? `<span class="dl-key">${escapeHtml(context.key)}</span>: `
+    : '';
+  return `<div class="dl-line">${label}${bracket}</div>`;
+}
+
+function closeLine(bracket: string): string {
+  return `<div class="dl-line">${bracket}</div></div>`;
+}
+
+function note(text: string): string {
+  return `<span class="dl-note">(${escapeHtml(text)})</span>`;
+}
+
+function formatValue(value: unknown, circular?: string[]): string {
+  return escapeHtml(formatPrimitive(value, circular));
+}
+
+function formatSegments(
+  segments: DiffSegment[],
+  side: 'insert' | 'delete',
+): string {
+  const tag = side === 'insert' ? 'ins' : 'del';
+  const text = segments
+    .filter((segment) => segment.type === 'equal' || segment.type === side)
+    .map((segment) =>
+      segment.type === 'equal'
+        ? escapeHtml(segment.value)
+        : `<${tag}>${escapeHtml(segment.value)}</${tag}>`,
+    )
+    .join('');
+  return `'${text}'`;
+}
+
+/**
+ * Render line hunks as `dl-hunk` blocks, added lines first in each run of
+ * changed lines
+ */
+function renderHunks(hunks: DiffHunk[]): string {
+  return hunks
+    .map((hunk) => {
+      const rows = walkHunks([hunk]).map((row) => {
+        if (row.type === 'header') {
+          return `<div class="dl-hunk-header">${row.text}</div>`;
+        }
+        if (row.type === 'context') {
+          return `<div class="dl-context">  ${escapeHtml(row.text)}</div>`;
+        }
+        return [
+          ...row.added.map(
+            (value) =>
+              `<div class="dl-added"><span class="dl-marker">+</span> ${escapeHtml(value)}</div>`,
+          ),
+          ...row.removed.map(
+            (value) =>
+              `<div class="dl-removed"><span class="dl-marker">-</span> ${escapeHtml(value)}</div>`,
+          ),
+        ].join('');
+      });
+      return `<div class="dl-hunk">${rows.join('')}</div>`;
+    })
+    .join('');
+}
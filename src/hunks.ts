@@ -0,0 +1,95 @@
+import { affixDiff, EditOperation, myersDiff } from './myers';
+import { DiffHunk } from './types';
+
+/**
+ * Group an edit script over lines into hunks with surrounding context.
+ * Hunks whose context would overlap or touch are merged, and line numbers
+ * follow the unified diff convention (1-based, start of an empty range is
+ * the line before it).
+ *
+ * @param operations - Edit script over the lines
+ * @param oldLines - The original lines
+ * @param newLines - The new lines
+ * @param context - Number of unchanged lines to keep around each change
+ * @returns The hunks in order
+ */
+export function createHunks(
+  operations: EditOperation[],
+  oldLines: readonly string[],
+  newLines: readonly string[],
+  context: number = 3,
+): DiffHunk[] {
+  const ranges: { start: number; end: number }[] = [];
+
+  operations.forEach((op, index) => {
+    if (op.type === 'equal') return;
+
+    const start = Math.max(0, index - context);
+    const end = Math.min(operations.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+
+    if (last && start <= last.end + 1) {
+      last.end = Math.max(last.end, end);
+    } else {
+      ranges.push({ start, end });
+    }
+  });
+
+  // Count the old/new lines consumed before each operation
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  for (const op of operations) {
+    oldBefore.push(oldCount);
+    newBefore.push(newCount);
+    if (op.type !== 'insert') oldCount++;
+    if (op.type !== 'delete') newCount++;
+  }
+
+  return ranges.map(({ start, end }) => {
+    const slice = operations.slice(start, end + 1);
+    const lines = slice.map((op) => ({
+      type: op.type,
+      value:
+        op.type === 'insert' ? newLines[op.newIndex] : oldLines[op.oldIndex],
+    }));
+    const oldLength = lines.filter((line) => line.type !== 'insert').length;
+    const newLength = lines.filter((line) => line.type !== 'delete').length;
+
+    return {
+      oldStart: oldBefore[start] + (oldLength > 0 ? 1 : 0),
+      oldLines: oldLength,
+      newStart: newBefore[start] + (newLength > 0 ? 1 : 0),
+      newLines: newLength,
+      lines,
+    };
+  });
+}
+
+/**
+ * Diff two multi-line strings line by line
+ *
+ * @param oldText - The original text
+ * @param newText - The new text
+ * @param context - Number of unchanged lines to keep around each change
+ * @param approximate - Only match the common leading and trailing lines, in
+ *   linear time, for texts too long or too different to align
+ * @returns The hunks in order
+ */
+export function diffLines(
+  oldText: string,
+  newText: string,
+  context: number = 3,
+  approximate = false,
+): DiffHunk[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  return createHunks(
+    approximate ? affixDiff(oldLines, newLines) : myersDiff(oldLines, newLines),
+    oldLines,
+    newLines,
+    context,
+  );
+}
@@ -1,6 +1,42 @@
 import { createDiff } from './diff';
+import { isEqual } from './equal';
+import { flattenDiff } from './flat';
 import { formatDiff } from './formatter';
-import { DiffOptions, DiffResult, DiffType, SerializableValue } from './types';
+import { compileOptions } from './paths';
+import { nodeSimilarity } from './similarity';
+import { collectStats } from './stats';
+import {
+  ArrayKey,
+  ArrayKeySelector,
+  ColorTheme,
+  Comparator,
+  ComparatorResult,
+  DiffCounts,
+  DiffHunk,
+  DiffOptions,
+  DiffResult,
+  DiffSegment,
+  DiffStats,
+  DiffType,
+  FlatChange,
+  JsonPatchOperation,
+  JsonPatchOptions,
+  MergeConflict,
+  MergeOptions,
+  MergeResult,
+  MergeStrategy,
+  NumericTolerance,
+  PathPattern,
+  PathPredicate,
+  PathSegment,
+  RenderContext,
+  Renderer,
+  SegmentGranularity,
+  SerializableValue,
+  ThemeColor,
+  ThemeName,
+  ValueType,
+} from './types';
 
 /**
  * Compare two values and generate a detailed diff result object
@@ -15,7 +51,7 @@ export function diffRaw(
   newValue: SerializableValue,
   options: DiffOptions = {},
 ): DiffResult {
-  return createDiff(oldValue, newValue, options);
+  return createDiff(oldValue, newValue, compileOptions(options));
 }
 
 /**
@@ -31,12 +67,14 @@ export function diff(
   newValue: SerializableValue,
   options: DiffOptions = {},
 ): string {
-  const diffResult = diffRaw(oldValue, newValue, options);
-  return formatDiff(diffResult, options);
+  const compiledOptions = compileOptions(options);
+  const diffResult = diffRaw(oldValue, newValue, compiledOptions);
+  return formatDiff(diffResult, compiledOptions);
 }
 
 /**
- * Check if two values are different
+ * Check if two values are different. Gives the same answer as `diffRaw`
+ * without building the diff, stopping at the first difference.
  *
  * @param oldValue - Original value to compare from
  * @param newValue - New value to compare against
@@ -48,10 +86,114 @@ export function isDiff(
   newValue: SerializableValue,
   options: DiffOptions = {},
 ): boolean {
-  const diffResult = diffRaw(oldValue, newValue, options);
-  return diffResult.type !== DiffType.UNCHANGED;
+  return !isEqual(oldValue, newValue, compileOptions(options));
 }
 
+/**
+ * Measure how similar two values are, from 0 (nothing in common) to 1
+ * (no differences). Objects and arrays aggregate the similarity of their
+ * children weighted by size, strings use the Levenshtein ratio.
+ *
+ * @param oldValue - Original value to compare from
+ * @param newValue - New value to compare against
+ * @param options - Configuration options for the diff
+ * @returns The similarity ratio
+ */
+export function similarity(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  options: DiffOptions = {},
+): number {
+  return nodeSimilarity(diffRaw(oldValue, newValue, options));
+}
+
+/**
+ * Count the differences between two values
+ *
+ * @param oldValue - Original value to compare from
+ * @param newValue - New value to compare against
+ * @param options - Configuration options for the diff
+ * @returns Totals of added/removed/changed/moved values, the deepest changed
+ * path and counts per top-level key
+ */
+export function diffStats(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  options: DiffOptions = {},
+): DiffStats {
+  return collectStats(diffRaw(oldValue, newValue, options));
+}
+
+/**
+ * List the changes between two values as flat entries with typed paths
+ *
+ * @param oldValue - Original value to compare from
+ * @param newValue - New value to compare against
+ * @param options - Configuration options for the diff
+ * @returns One entry per added, removed, changed or moved value, with its
+ * JSON Pointer and JSONPath
+ */
+export function diffFlat(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  options: DiffOptions = {},
+): FlatChange[] {
+  return flattenDiff(diffRaw(oldValue, newValue, options));
+}
+
+// Export diff result helpers
+export { applyDiff, revertDiff } from './apply';
+export { toJsonPatch } from './patch';
+
+// Export JSON Pointer and JSONPath helpers
+export {
+  formatJsonPath,
+  formatPointer,
+  parseJsonPath,
+  parsePointer,
+} from './pointer';
+
+// Export renderers for the format option
+export { defaultRenderer, registerRenderer } from './renderers';
+export { htmlRenderer, htmlStylesheet } from './html';
+export { markdownRenderer } from './markdown';
+export { sideBySideRenderer } from './sideBySide';
+export { themes } from './colors';
+
+// Export three-way merge
+export { merge } from './merge';
+export { formatConflicts } from './formatter';
+
 // Export types
-export type { DiffOptions, DiffResult, SerializableValue };
+export type {
+  ArrayKey,
+  ArrayKeySelector,
+  ColorTheme,
+  Comparator,
+  ComparatorResult,
+  DiffCounts,
+  DiffHunk,
+  DiffOptions,
+  DiffResult,
+  DiffSegment,
+  DiffStats,
+  FlatChange,
+  JsonPatchOperation,
+  JsonPatchOptions,
+  MergeConflict,
+  MergeOptions,
+  MergeResult,
+  MergeStrategy,
+  NumericTolerance,
+  PathPattern,
+  PathPredicate,
+  PathSegment,
+  RenderContext,
+  Renderer,
+  SegmentGranularity,
+  SerializableValue,
+  ThemeColor,
+  ThemeName,
+  ValueType,
+};
 export { DiffType };
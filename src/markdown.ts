@@ -0,0 +1,197 @@
+import { isVisible, renderNode } from './render';
+import { collectStats, formatStats } from './stats';
+import { DiffHunk, DiffResult, RenderContext, Renderer } from './types';
+import {
+  escapeHtml,
+  formatCollapsed,
+  formatNotes,
+  formatPrimitive,
+  formatUnchanged,
+  isList,
+  keyOf,
+  walkHunks,
+} from './values';
+
+/**
+ * Lines for a ```diff fenced block: the `+`/`-` marker sits in the first
+ * column, where GitHub and other Markdown viewers look for it, followed by
+ * the JSON-style indentation. Moved elements and collapsed subtrees use
+ * `!`, unchanged values and brackets a space. Values are never colored.
+ */
+export const markdownRenderer: Renderer = {
+  objectOpen: (_result, context) =>
+    markLine(' ', context, `${keyOf(context)}{`),
+  objectClose: (_result, context) => markLine(' ', context, '}'),
+  arrayOpen: (_result, context) => markLine(' ', context, `${keyOf(context)}[`),
+  arrayClose: (_result, context) => markLine(' ', context, ']'),
+  join: (entries) => entries.join(',\n'),
+
+  added: (result, context) =>
+    markLine(
+      '+',
+      context,
+      `${keyOf(context)}${formatPrimitive(result.newValue)}`,
+    ),
+
+  removed: (result, context) =>
+    markLine(
+      '-',
+      context,
+      `${keyOf(context)}${formatPrimitive(result.oldValue)}`,
+    ),
+
+  unchanged: (result, context) =>
+    markLine(' ', context, formatUnchanged(result, context)),
+
+  moved: (result, context) =>
+    markLine(
+      '!',
+      context,
+      `${keyOf(context)}${formatPrimitive(result.newValue)} (moved from ${result.meta?.fromIndex} to ${result.meta?.toIndex})`,
+    ),
+
+  collapsed: (result, context) =>
+    markLine(
+      '!',
+      context,
+      `${keyOf(context)}${formatCollapsed(
+        result.newValue,
+        result.meta?.changeCount ?? 0,
+      )}`,
+    ),
+
+  changed: renderChangedLines,
+
+  annotate: (result, { options }) =>
+    formatNotes(result, options)
+      .map((note) => ` (${note})`)
+      .join(''),
+
+  summary: (stats) => `**${formatStats(stats)}**`,
+
+  document: (result, context, body, summary) => {
+    const sections = context.options.markdownDetails
+      ? renderSections(result, context)
+      : undefined;
+    const blocks = sections ?? (body ? [fenceDiff(body)] : []);
+    return [...(summary ? [summary] : []), ...blocks].join('\n\n');
+  },
+};
+
+/**
+ * One collapsible `<details>` section per visible top-level key of an
+ * object, summarized by its own counts. Undefined for lists and values
+ * without children, which keep a single block.
+ */
+function renderSections(
+  result: DiffResult,
+  context: RenderContext,
+): string[] | undefined {
+  const { options } = context;
+  if (isList(result.oldValue) || isList(result.newValue)) {
+    return undefined;
+  }
+  if (!result.children?.length) {
+    return undefined;
+  }
+
+  return result.children
+    .filter((child) => isVisible(child, false, options))
+    .map((child) => {
+      const path = child.path ?? [];
+      const key = path[path.length - 1] ?? '';
+      const body = renderNode(child, markdownRenderer, {
+        path,
+        depth: 0,
+        key,
+        options,
+      });
+      return [
+        '<details>',
+        `<summary><code>${escapeHtml(key)}</code>: ${formatStats(collectStats(child))}</summary>`,
+        '',
+        fenceDiff(body),
+        '',
+        '</details>',
+      ].join('\n');
+    });
+}
+
+/**
+ * Wrap text in a ```diff fence, longer than any run of backticks inside it
+ */
+export function fenceDiff(body: string): string {
+  const longest = Math.max(
+    0,
+    ...(body.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const fence = '`'.repeat(Math.max(3, longest + 1));
+  return `${fence}diff\n${body}\n${fence}`;
+}
+
+/**
+ * Prefix the marker and indentation to every line of the text, so the lines
+ * of multi-line strings are colored too
+ */
+function markLine(
+  marker: string,
+  context: RenderContext,
+  text: string,
+): string {
+  const prefix = `${marker} ${'  '.repeat(context.depth)}`;
+  return text
+    .split('\n')
+    .map((line) => `${prefix}${line}`)
+    .join('\n');
+}
+
+/**
+ * Render a changed value as a "+ then -" pair, or its line hunks under the
+ * key
+ */
+function renderChangedLines(
+  result: DiffResult,
+  context: RenderContext,
+  annotation: string,
+): string {
+  const { meta, newValue, oldValue } = result;
+
+  if (meta?.hunks) {
+    const hunks = renderHunks(meta.hunks, {
+      ...context,
+      depth: context.key ? context.depth + 1 : context.depth,
+    });
+    return context.key
+      ? `${markLine(' ', context, `${context.key}:${annotation}`)}\n${hunks}`
+      : `${hunks}${annotation}`;
+  }
+
+  const newLine = markLine(
+    '+',
+    context,
+    `${keyOf(context)}${formatPrimitive(newValue)}${annotation}`,
+  );
+  const oldLine = markLine(
+    '-',
+    context,
+    `${keyOf(context)}${formatPrimitive(oldValue)}`,
+  );
+  return `${newLine}\n${oldLine}`;
+}
+
+/**
+ * Render line hunks under their `@@` headers, added lines first in each run
+ * of changed lines
+ */
+function renderHunks(hunks: DiffHunk[], context: RenderContext): string {
+  return walkHunks(hunks)
+    .flatMap((row) =>
+      row.type === 'change'
+        ? [
+            ...row.added.map((line) => markLine('+', context, line)),
+            ...row.removed.map((line) => markLine('-', context, line)),
+          ]
+        : [markLine(' ', context, row.text)],
+    )
+    .join('\n');
+}
@@ -0,0 +1,202 @@
+import { ArrayKeySelector, SerializableValue } from './types';
+
+/**
+ * How an element of two aligned arrays is reported
+ * - `match`: an old and a new element diffed against each other
+ * - `move`: a deep-equal element found at another index (LCS alignment)
+ * - `delete` / `insert`: an element found on one side only
+ *
+ * Elements matched through `arrayKey` carry their `key`, and `moved` when
+ * they left the longest run of matches that kept their order.
+ */
+export type ElementMatch =
+  | {
+      type: 'match';
+      oldIndex: number;
+      newIndex: number;
+      key?: string | number;
+      moved?: boolean;
+    }
+  | { type: 'move'; oldIndex: number; newIndex: number }
+  | { type: 'delete'; oldIndex: number; key?: string | number }
+  | { type: 'insert'; newIndex: number; key?: string | number };
+
+/**
+ * Path segment of the element a match diffs: its index in the new array, or
+ * in the old one when it was deleted. Keys stay out of paths so that `[*]`
+ * patterns match keyed elements too.
+ */
+export function elementSegment(match: ElementMatch): string {
+  return String(match.type === 'delete' ? match.oldIndex : match.newIndex);
+}
+
+/**
+ * Match elements by position: elements at the same index are matched and
+ * the extra elements of the longer array are deleted or inserted
+ *
+ * @param oldArray - The original array
+ * @param newArray - The new array
+ * @returns Matches in index order
+ */
+export function matchByPosition(
+  oldArray: SerializableValue[],
+  newArray: SerializableValue[],
+): ElementMatch[] {
+  const matches: ElementMatch[] = [];
+  for (let i = 0; i < Math.max(oldArray.length, newArray.length); i++) {
+    if (i >= oldArray.length) {
+      matches.push({ type: 'insert', newIndex: i });
+    } else if (i >= newArray.length) {
+      matches.push({ type: 'delete', oldIndex: i });
+    } else {
+      matches.push({ type: 'match', oldIndex: i, newIndex: i });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Match elements with the same key. Duplicate keys are matched in order;
+ * new elements without a counterpart are inserted and the old ones left
+ * over are deleted. Matches outside the longest run that kept its order are
+ * marked `moved`.
+ *
+ * @param oldArray - The original array
+ * @param newArray - The new array
+ * @param selectKey - The `arrayKey` selector
+ * @returns Matches in the order of the new array followed by the deletions,
+ * or undefined when some element has no key
+ */
+export function matchByKey(
+  oldArray: SerializableValue[],
+  newArray: SerializableValue[],
+  selectKey: ArrayKeySelector,
+): ElementMatch[] | undefined {
+  const oldKeys = oldArray.map(selectKey);
+  const newKeys = newArray.map(selectKey);
+  if (!hasKeys(oldKeys) || !hasKeys(newKeys)) {
+    return undefined;
+  }
+
+  // Queue old indices per key so duplicate keys are matched in order
+  const oldIndicesByKey = new Map<string | number, number[]>();
+  oldKeys.forEach((key, index) => {
+    const indices = oldIndicesByKey.get(key) ?? [];
+    indices.push(index);
+    oldIndicesByKey.set(key, indices);
+  });
+
+  const matched = new Set<number>();
+  const matches = newKeys.map((key, newIndex): ElementMatch => {
+    const oldIndex = oldIndicesByKey.get(key)?.shift();
+    if (oldIndex === undefined) {
+      return { type: 'insert', newIndex, key };
+    }
+    matched.add(oldIndex);
+    return { type: 'match', oldIndex, newIndex, key };
+  });
+
+  const pairs = matches.filter((match) => match.type === 'match');
+  const inOrder = longestIncreasingRun(pairs, (match) => match.oldIndex);
+  for (const match of pairs) {
+    match.moved = !inOrder.has(match);
+  }
+  oldKeys.forEach((key, oldIndex) => {
+    if (!matched.has(oldIndex)) {
+      matches.push({ type: 'delete', oldIndex, key });
+    }
+  });
+
+  return matches;
+}
+
+function hasKeys(
+  keys: (string | number | undefined)[],
+): keys is (string | number)[] {
+  return keys.every((key) => key !== undefined);
+}
+
+/**
+ * Pair the members of two sets: a new member with the same member of the
+ * old set, or else with the first unpaired old member `equals` accepts
+ *
+ * @param oldItems - Members of the old set
+ * @param newItems - Members of the new set
+ * @param equals - Deep equality of an old and a new member
+ * @returns For each new member, the index of its old member when paired
+ */
+export function pairMembers(
+  oldItems: SerializableValue[],
+  newItems: SerializableValue[],
+  equals: (
+    oldItem: SerializableValue,
+    newItem: SerializableValue,
+    newIndex: number,
+  ) => boolean,
+): (number | undefined)[] {
+  const oldIndexOf = new Map(oldItems.map((item, index) => [item, index]));
+  const usedOld = new Set<number>();
+  const pairs = newItems.map((item) => {
+    const oldIndex = oldIndexOf.get(item);
+    if (oldIndex !== undefined) {
+      usedOld.add(oldIndex);
+    }
+    return oldIndex;
+  });
+
+  newItems.forEach((item, newIndex) => {
+    if (pairs[newIndex] !== undefined) return;
+    const oldIndex = oldItems.findIndex(
+      (candidate, index) =>
+        !usedOld.has(index) && equals(candidate, item, newIndex),
+    );
+    if (oldIndex !== -1) {
+      pairs[newIndex] = oldIndex;
+      usedOld.add(oldIndex);
+    }
+  });
+
+  return pairs;
+}
+
+/**
+ * Longest subsequence of entries (sorted by new index) whose old indices
+ * increase, found with patience sorting
+ *
+ * @param entries - Matched entries in the order of the new array
+ * @param oldIndexOf - Index of an entry in the old array
+ * @returns The entries of the run
+ */
+export function longestIncreasingRun<T>(
+  entries: T[],
+  oldIndexOf: (entry: T) => number,
+): Set<T> {
+  const tails: number[] = [];
+  const previous: number[] = [];
+
+  entries.forEach((entry, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (oldIndexOf(entries[tails[mid]]) < oldIndexOf(entry)) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = index;
+  });
+
+  const run = new Set<T>();
+  for (
+    let index = tails.length > 0 ? tails[tails.length - 1] : -1;
+    index >= 0;
+    index = previous[index]
+  ) {
+    run.add(entries[index]);
+  }
+
+  return run;
+}
@@ -0,0 +1,122 @@
+import { createDiff } from './diff';
+import { compileOptions } from './paths';
+import {
+  DiffResult,
+  DiffType,
+  MergeConflict,
+  MergeOptions,
+  MergeResult,
+  SerializableValue,
+} from './types';
+import { isObject } from './utils';
+
+/**
+ * Merge two independent edits of a base value.
+ * Both edits are diffed against the base with `createDiff`; a path changed by
+ * only one side takes that side's value, objects changed by both sides are
+ * merged key by key, and any other path both sides changed differently is a
+ * conflict. Arrays and primitives are merged as a whole.
+ *
+ * @param base - The common ancestor
+ * @param ours - Our edit of the base
+ * @param theirs - Their edit of the base
+ * @param options - Diff options plus the conflict resolution strategy
+ * @returns The merged value and the conflicts found
+ */
+export function merge(
+  base: SerializableValue,
+  ours: SerializableValue,
+  theirs: SerializableValue,
+  options: MergeOptions = {},
+): MergeResult {
+  const compiledOptions = compileOptions(options);
+  const conflicts: MergeConflict[] = [];
+  const value = mergeNode(
+    createDiff(base, ours, compiledOptions),
+    createDiff(base, theirs, compiledOptions),
+    { base, ours, theirs },
+    compiledOptions,
+    [],
+    conflicts,
+  );
+
+  return { value, conflicts };
+}
+
+function mergeNode(
+  oursDiff: DiffResult | undefined,
+  theirsDiff: DiffResult | undefined,
+  values: {
+    base: SerializableValue;
+    ours: SerializableValue;
+    theirs: SerializableValue;
+  },
+  options: MergeOptions,
+  path: string[],
+  conflicts: MergeConflict[],
+): SerializableValue {
+  const { base, ours, theirs } = values;
+
+  if (!theirsDiff || theirsDiff.type === DiffType.UNCHANGED) {
+    return ours;
+  }
+  if (!oursDiff || oursDiff.type === DiffType.UNCHANGED) {
+    return theirs;
+  }
+
+  if (
+    oursDiff.children &&
+    theirsDiff.children &&
+    isObject(base) &&
+    isObject(ours) &&
+    isObject(theirs)
+  ) {
+    const byKey = (children: DiffResult[]) =>
+      new Map(
+        children.map((child) => [child.path?.[child.path.length - 1], child]),
+      );
+    const oursChildren = byKey(oursDiff.children);
+    const theirsChildren = byKey(theirsDiff.children);
+    const merged: Record<string, SerializableValue> = {};
+
+    for (const key of new Set([
+      ...Object.keys(base),
+      ...Object.keys(ours),
+      ...Object.keys(theirs),
+    ])) {
+      const value = mergeNode(
+        oursChildren.get(key),
+        theirsChildren.get(key),
+        { base: base[key], ours: ours[key], theirs: theirs[key] },
+        options,
+        [...path, key],
+        conflicts,
+      );
+      if (value !== undefined) {
+        merged[key] = value;
+      }
+    }
+
+    return merged;
+  }
+
+  // Both sides made the same change
+  if (createDiff(ours, theirs, options, path).type === DiffType.UNCHANGED) {
+    return ours;
+  }
+
+  const conflict: MergeConflict = { path, base, ours, theirs };
+  conflicts.push(conflict);
+
+  const { strategy } = options;
+  if (strategy === 'prefer-ours') {
+    return ours;
+  }
+  if (strategy === 'prefer-theirs') {
+    return theirs;
+  }
+  if (typeof strategy === 'function') {
+    return strategy(conflict);
+  }
+  return base;
+}
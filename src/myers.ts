@@ -0,0 +1,326 @@
+/**
+ * A single step of an edit script produced by {@link myersDiff}
+ */
+export type EditOperation =
+  | { type: 'equal'; oldIndex: number; newIndex: number }
+  | { type: 'delete'; oldIndex: number }
+  | { type: 'insert'; newIndex: number };
+
+/**
+ * Equality test for two elements, given with their indices
+ */
+type Equals<T> = (a: T, b: T, oldIndex: number, newIndex: number) => boolean;
+
+/**
+ * Compute the shortest edit script between two sequences using the Myers
+ * O((N+M)D) algorithm in its linear-space form: the middle snake of the
+ * forward and backward searches splits the problem in two, so memory stays
+ * O(N+M) however far apart the sequences are. Common prefixes and suffixes
+ * are trimmed first so the typical "few edits in a long sequence" case
+ * stays close to linear.
+ *
+ * @param oldItems - The original sequence
+ * @param newItems - The sequence to compare against
+ * @param equals - Equality test for two elements, given with their indices
+ * @returns Edit operations in sequence order
+ */
+export function myersDiff<T>(
+  oldItems: readonly T[],
+  newItems: readonly T[],
+  equals: Equals<T> = Object.is,
+): EditOperation[] {
+  const operations: EditOperation[] = [];
+  diffRange(
+    oldItems,
+    newItems,
+    0,
+    oldItems.length,
+    0,
+    newItems.length,
+    equals,
+    operations,
+  );
+  return deletionsFirst(operations);
+}
+
+/**
+ * A cheap edit script between two sequences in O(N+M): the common prefix
+ * and suffix are kept and everything between them is deleted and inserted.
+ * Used where {@link myersDiff} would be too slow and an estimate will do.
+ *
+ * @param oldItems - The original sequence
+ * @param newItems - The sequence to compare against
+ * @returns Edit operations in sequence order
+ */
+export function affixDiff<T>(
+  oldItems: readonly T[],
+  newItems: readonly T[],
+): EditOperation[] {
+  const operations: EditOperation[] = [];
+  const maxAffix = Math.min(oldItems.length, newItems.length);
+  let prefix = 0;
+  while (prefix < maxAffix && Object.is(oldItems[prefix], newItems[prefix])) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < maxAffix - prefix &&
+    Object.is(
+      oldItems[oldItems.length - suffix - 1],
+      newItems[newItems.length - suffix - 1],
+    )
+  ) {
+    suffix++;
+  }
+
+  for (let i = 0; i < prefix; i++) {
+    operations.push({ type: 'equal', oldIndex: i, newIndex: i });
+  }
+  for (let i = prefix; i < oldItems.length - suffix; i++) {
+    operations.push({ type: 'delete', oldIndex: i });
+  }
+  for (let i = prefix; i < newItems.length - suffix; i++) {
+    operations.push({ type: 'insert', newIndex: i });
+  }
+  for (let i = suffix; i > 0; i--) {
+    operations.push({
+      type: 'equal',
+      oldIndex: oldItems.length - i,
+      newIndex: newItems.length - i,
+    });
+  }
+  return operations;
+}
+
+/**
+ * Order every run of changes with its deletions before its insertions, as
+ * the greedy search does
+ */
+function deletionsFirst(operations: EditOperation[]): EditOperation[] {
+  const ordered: EditOperation[] = [];
+  let inserted: EditOperation[] = [];
+  for (const operation of operations) {
+    if (operation.type === 'insert') {
+      inserted.push(operation);
+      continue;
+    }
+    if (operation.type === 'equal') {
+      ordered.push(...inserted);
+      inserted = [];
+    }
+    ordered.push(operation);
+  }
+  ordered.push(...inserted);
+  return ordered;
+}
+
+/**
+ * Append the edit script of `oldItems[oldStart, oldEnd)` against
+ * `newItems[newStart, newEnd)` to `operations`
+ */
+function diffRange<T>(
+  oldItems: readonly T[],
+  newItems: readonly T[],
+  oldStart: number,
+  oldEnd: number,
+  newStart: number,
+  newEnd: number,
+  equals: Equals<T>,
+  operations: EditOperation[],
+): void {
+  while (
+    oldStart < oldEnd &&
+    newStart < newEnd &&
+    equals(oldItems[oldStart], newItems[newStart], oldStart, newStart)
+  ) {
+    operations.push({ type: 'equal', oldIndex: oldStart, newIndex: newStart });
+    oldStart++;
+    newStart++;
+  }
+
+  let suffix = 0;
+  while (
+    oldEnd - suffix > oldStart &&
+    newEnd - suffix > newStart &&
+    equals(
+      oldItems[oldEnd - suffix - 1],
+      newItems[newEnd - suffix - 1],
+      oldEnd - suffix - 1,
+      newEnd - suffix - 1,
+    )
+  ) {
+    suffix++;
+  }
+  oldEnd -= suffix;
+  newEnd -= suffix;
+
+  const split =
+    oldStart < oldEnd && newStart < newEnd
+      ? middleSnake(
+          oldItems,
+          newItems,
+          oldStart,
+          oldEnd,
+          newStart,
+          newEnd,
+          equals,
+        )
+      : undefined;
+
+  if (split) {
+    const [oldSplit, newSplit] = split;
+    diffRange(
+      oldItems,
+      newItems,
+      oldStart,
+      oldSplit,
+      newStart,
+      newSplit,
+      equals,
+      operations,
+    );
+    diffRange(
+      oldItems,
+      newItems,
+      oldSplit,
+      oldEnd,
+      newSplit,
+      newEnd,
+      equals,
+      operations,
+    );
+  } else {
+    for (let i = oldStart; i < oldEnd; i++) {
+      operations.push({ type: 'delete', oldIndex: i });
+    }
+    for (let j = newStart; j < newEnd; j++) {
+      operations.push({ type: 'insert', newIndex: j });
+    }
+  }
+
+  for (let i = 0; i < suffix; i++) {
+    operations.push({
+      type: 'equal',
+      oldIndex: oldEnd + i,
+      newIndex: newEnd + i,
+    });
+  }
+}
+
+/**
+ * Run the greedy search forward from the start and backward from the end
+ * of two non-empty ranges at the same time, until the paths overlap. The
+ * overlap lies on a shortest edit path and splits it into two halves.
+ *
+ * @returns The old and new index of the split point, or undefined when the
+ * ranges have nothing in common
+ */
+function middleSnake<T>(
+  oldItems: readonly T[],
+  newItems: readonly T[],
+  oldStart: number,
+  oldEnd: number,
+  newStart: number,
+  newEnd: number,
+  equals: Equals<T>,
+): [number, number] | undefined {
+  const n = oldEnd - oldStart;
+  const m = newEnd - newStart;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const length = 2 * maxD + 2;
+  const delta = n - m;
+  // With an odd delta the forward search finds the overlap first
+  const forwardMeets = delta % 2 !== 0;
+
+  // Furthest x reached on each diagonal k = x - y, counted from the start
+  // for the forward search and from the end for the backward search
+  const forward = new Int32Array(length).fill(-1);
+  const backward = new Int32Array(length).fill(-1);
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+
+  // Diagonals that ran off the edge of the grid are not searched again
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      const index = offset + k;
+      let x =
+        k === -d || (k !== d && forward[index - 1] < forward[index + 1])
+          ? forward[index + 1]
+          : forward[index - 1] + 1;
+      let y = x - k;
+      while (
+        x < n &&
+        y < m &&
+        equals(
+          oldItems[oldStart + x],
+          newItems[newStart + y],
+          oldStart + x,
+          newStart + y,
+        )
+      ) {
+        x++;
+        y++;
+      }
+      forward[index] = x;
+
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (forwardMeets) {
+        const other = offset + delta - k;
+        if (other >= 0 && other < length && backward[other] !== -1) {
+          if (x >= n - backward[other]) {
+            return [oldStart + x, newStart + y];
+          }
+        }
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      const index = offset + k;
+      let x =
+        k === -d || (k !== d && backward[index - 1] < backward[index + 1])
+          ? backward[index + 1]
+          : backward[index - 1] + 1;
+      let y = x - k;
+      while (
+        x < n &&
+        y < m &&
+        equals(
+          oldItems[oldEnd - x - 1],
+          newItems[newEnd - y - 1],
+          oldEnd - x - 1,
+          newEnd - y - 1,
+        )
+      ) {
+        x++;
+        y++;
+      }
+      backward[index] = x;
+
+      if (x > n) {
+        backwardEnd += 2;
+      } else if (y > m) {
+        backwardStart += 2;
+      } else if (!forwardMeets) {
+        const other = offset + delta - k;
+        if (other >= 0 && other < length && forward[other] !== -1) {
+          const forwardX = forward[other];
+          const forwardY = offset + forwardX - other;
+          if (forwardX >= n - x) {
+            return [oldStart + forwardX, newStart + forwardY];
+          }
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
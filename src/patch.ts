@@ -0,0 +1,165 @@
+import { alignChildren } from './alignment';
+import { appendPointer } from './pointer';
+import {
+  DiffResult,
+  DiffType,
+  JsonPatchOperation,
+  JsonPatchOptions,
+  SerializableValue,
+} from './types';
+import { isObject } from './utils';
+import { jsonReplacer } from './values';
+
+/**
+ * Convert a diff result into an RFC 6902 JSON Patch that turns the old value
+ * into the new one. Operations are meant to be applied in order, so array
+ * indices account for the operations before them. Array elements that were
+ * moved or reordered (LCS or keyed alignment) become `move` operations.
+ *
+ * @param result - A diff result from `diffRaw`
+ * @param options - JSON Patch options
+ * @returns The list of patch operations
+ */
+export function toJsonPatch(
+  result: DiffResult,
+  options: JsonPatchOptions = {},
+): JsonPatchOperation[] {
+  const operations: JsonPatchOperation[] = [];
+  collectOperations(result, '', options, operations);
+  return operations;
+}
+
+function collectOperations(
+  node: DiffResult,
+  pointer: string,
+  options: JsonPatchOptions,
+  operations: JsonPatchOperation[],
+): void {
+  switch (node.type) {
+    case DiffType.UNCHANGED:
+    case DiffType.MOVED:
+      // Moves are emitted by the parent array
+      return;
+    case DiffType.ADDED:
+      operations.push({
+        op: 'add',
+        path: pointer,
+        value: toJson(node.newValue),
+      });
+      return;
+    case DiffType.REMOVED:
+      operations.push({ op: 'remove', path: pointer });
+      return;
+  }
+
+  const { oldValue, newValue, children = [] } = node;
+
+  if (
+    children.length > 0 &&
+    Array.isArray(oldValue) &&
+    Array.isArray(newValue)
+  ) {
+    collectArrayOperations(node, oldValue, pointer, options, operations);
+    return;
+  }
+
+  if (children.length > 0 && isObject(oldValue) && isObject(newValue)) {
+    for (const child of children) {
+      const key = child.path?.[child.path.length - 1] ?? '';
+      collectOperations(
+        child,
+        appendPointer(pointer, key),
+        options,
+        operations,
+      );
+    }
+    return;
+  }
+
+  if (options.test) {
+    operations.push({ op: 'test', path: pointer, value: toJson(oldValue) });
+  }
+  operations.push({ op: 'replace', path: pointer, value: toJson(newValue) });
+}
+
+/**
+ * Patch values are JSON: maps become objects, sets and typed arrays become
+ * arrays and other values go through toJSON, as in formatted output
+ */
+function toJson(value: SerializableValue): SerializableValue {
+  return value === undefined
+    ? value
+    : JSON.parse(JSON.stringify(value, jsonReplacer()));
+}
+
+/**
+ * Walk the aligned array steps while tracking where every element currently
+ * sits, so each operation uses the index valid at the time it is applied
+ */
+function collectArrayOperations(
+  node: DiffResult,
+  oldArray: SerializableValue[],
+  pointer: string,
+  options: JsonPatchOptions,
+  operations: JsonPatchOperation[],
+): void {
+  const oldTokens = oldArray.map(() => ({}));
+  const working = [...oldTokens];
+  let lastPlaced: object | undefined;
+  const nextIndex = () => (lastPlaced ? working.indexOf(lastPlaced) + 1 : 0);
+
+  for (const step of alignChildren(node)) {
+    const { fromIndex, toIndex } = step.child.meta ?? {};
+    const reordered =
+      step.type !== 'keep' && fromIndex !== undefined && toIndex !== undefined;
+
+    if (step.type === 'delete') {
+      // Reordered elements are moved when their new position is reached
+      if (reordered) continue;
+
+      const index = working.indexOf(oldTokens[step.oldIndex]);
+      working.splice(index, 1);
+      operations.push({ op: 'remove', path: appendPointer(pointer, index) });
+    } else if (step.type === 'insert' && reordered) {
+      const token = oldTokens[fromIndex];
+      const from = working.indexOf(token);
+      working.splice(from, 1);
+      const to = nextIndex();
+      working.splice(to, 0, token);
+
+      if (from !== to) {
+        operations.push({
+          op: 'move',
+          from: appendPointer(pointer, from),
+          path: appendPointer(pointer, to),
+        });
+      }
+      collectOperations(
+        step.child,
+        appendPointer(pointer, to),
+        options,
+        operations,
+      );
+      lastPlaced = token;
+    } else if (step.type === 'insert') {
+      const token = {};
+      const index = nextIndex();
+      working.splice(index, 0, token);
+      operations.push({
+        op: 'add',
+        path: appendPointer(pointer, index),
+        value: toJson(step.child.newValue),
+      });
+      lastPlaced = token;
+    } else {
+      const token = oldTokens[step.oldIndex];
+      collectOperations(
+        step.child,
+        appendPointer(pointer, working.indexOf(token)),
+        options,
+        operations,
+      );
+      lastPlaced = token;
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import {
+  ArrayKey,
+  ArrayKeySelector,
+  Comparator,
+  ComparatorResult,
+  DiffOptions,
+  NumericTolerance,
+  PathPattern,
+  PathPredicate,
+  SerializableValue,
+} from './types';
+import { isObject, valueType } from './utils';
+
+interface CompiledPatterns {
+  ignoreKeys: PathPredicate;
+  outputKeys: PathPredicate;
+  comparators: { comparator: Comparator; selects: PathPredicate }[];
+  tolerances: { tolerance: NumericTolerance; selects: PathPredicate }[];
+  arrayKeys: { selectKey: ArrayKeySelector; selects: PathPredicate }[];
+  usesPaths: boolean;
+}
+
+const compiledByOptions = new WeakMap<DiffOptions, CompiledPatterns>();
+
+/**
+ * Copy the options and compile their path patterns, so every recursive
+ * step of one diff call reuses the same matchers
+ *
+ * @param options - Options as passed by the caller
+ * @returns Options to thread through a single diff call
+ */
+export function compileOptions<T extends DiffOptions>(options: T): T {
+  if (compiledByOptions.has(options)) {
+    return options;
+  }
+
+  const compiled = { ...options };
+  compiledByOptions.set(compiled, compilePatterns(options));
+  return compiled;
+}
+
+/**
+ * Check whether `ignoreKeys` selects the given path
+ */
+export function isIgnoredPath(
+  options: DiffOptions,
+  path: string[],
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+): boolean {
+  return getPatterns(options).ignoreKeys(path, oldValue, newValue);
+}
+
+/**
+ * Check whether `outputKeys` selects the given path
+ */
+export function isOutputPath(
+  options: DiffOptions,
+  path: string[],
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+): boolean {
+  return getPatterns(options).outputKeys(path, oldValue, newValue);
+}
+
+/**
+ * Verdict of the first comparator that selects the given values and does
+ * not defer, in the order they were given
+ *
+ * @returns Whether the values are equal and the metadata to attach, or
+ * undefined when no comparator decides
+ */
+export function comparatorVerdict(
+  options: DiffOptions,
+  path: string[],
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+): Exclude<ComparatorResult, boolean | undefined> | undefined {
+  for (const { comparator, selects } of getPatterns(options).comparators) {
+    if (!selects(path, oldValue, newValue)) continue;
+
+    const verdict = comparator.compare(oldValue, newValue, path);
+    if (verdict !== undefined) {
+      return typeof verdict === 'boolean' ? { equal: verdict } : verdict;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Numeric tolerance at the given path: the first matching `pathTolerance`
+ * entry, falling back to `tolerance`
+ */
+export function toleranceAt(
+  options: DiffOptions,
+  path: string[],
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+): NumericTolerance {
+  const match = getPatterns(options).tolerances.find(({ selects }) =>
+    selects(path, oldValue, newValue),
+  );
+  return match?.tolerance ?? toTolerance(options.tolerance ?? 0);
+}
+
+/**
+ * Whether any option depends on the path of the values being compared
+ * (`ignoreKeys`, `comparators`, `pathTolerance` or per-path `arrayKey`)
+ */
+export function usesPaths(options: DiffOptions): boolean {
+  return getPatterns(options).usesPaths;
+}
+
+/**
+ * Find the `arrayKey` selector that applies to the array at the given path:
+ * the first entry of a per-path map whose pattern matches it
+ */
+export function resolveArrayKey(
+  options: DiffOptions,
+  path: string[],
+): ArrayKeySelector | undefined {
+  return getPatterns(options).arrayKeys.find(({ selects }) =>
+    selects(path, undefined, undefined),
+  )?.selectKey;
+}
+
+/**
+ * Compiled patterns of the options, compiling them on first use when the
+ * options did not go through compileOptions
+ */
+function getPatterns(options: DiffOptions): CompiledPatterns {
+  let compiled = compiledByOptions.get(options);
+  if (!compiled) {
+    compiled = compilePatterns(options);
+    compiledByOptions.set(options, compiled);
+  }
+  return compiled;
+}
+
+function compilePatterns(options: DiffOptions): CompiledPatterns {
+  return {
+    ignoreKeys: compilePathPatterns(options.ignoreKeys ?? []),
+    outputKeys: compilePathPatterns(options.outputKeys ?? []),
+    comparators: (options.comparators ?? []).map((comparator) => ({
+      comparator,
+      selects: compileComparator(comparator),
+    })),
+    tolerances: Object.entries(options.pathTolerance ?? {}).map(
+      ([pattern, tolerance]) => ({
+        tolerance: toTolerance(tolerance),
+        selects: compilePathPatterns([pattern]),
+      }),
+    ),
+    arrayKeys: compileArrayKeys(options.arrayKey),
+    usesPaths:
+      (options.ignoreKeys ?? []).length > 0 ||
+      (options.comparators ?? []).length > 0 ||
+      Object.keys(options.pathTolerance ?? {}).length > 0 ||
+      typeof options.arrayKey === 'object',
+  };
+}
+
+function compileArrayKeys(
+  arrayKey: DiffOptions['arrayKey'],
+): CompiledPatterns['arrayKeys'] {
+  if (arrayKey === undefined) {
+    return [];
+  }
+  if (typeof arrayKey !== 'object') {
+    return [{ selectKey: toKeySelector(arrayKey), selects: () => true }];
+  }
+  return Object.entries(arrayKey).map(([pattern, entry]) => ({
+    selectKey: toKeySelector(entry),
+    selects: compilePathPatterns([pattern]),
+  }));
+}
+
+function toKeySelector(arrayKey: ArrayKey): ArrayKeySelector {
+  if (typeof arrayKey === 'function') {
+    return arrayKey;
+  }
+  return (item) => {
+    if (!isObject(item)) {
+      return undefined;
+    }
+    const key = item[arrayKey];
+    return typeof key === 'string' || typeof key === 'number' ? key : undefined;
+  };
+}
+
+function toTolerance(tolerance: number | NumericTolerance): NumericTolerance {
+  return typeof tolerance === 'number' ? { absolute: tolerance } : tolerance;
+}
+
+function compileComparator(comparator: Comparator): PathPredicate {
+  const { path, type } = comparator;
+  const matchesPath =
+    path === undefined ? () => true : compilePathPatterns([path]);
+  const matchesType =
+    type === undefined
+      ? () => true
+      : typeof type === 'function'
+        ? type
+        : (value: SerializableValue) => valueType(value) === type;
+
+  return (valuePath, oldValue, newValue) =>
+    matchesType(oldValue) &&
+    matchesType(newValue) &&
+    matchesPath(valuePath, oldValue, newValue);
+}
+
+/**
+ * Compile path patterns into a single predicate.
+ * String patterns are dotted paths where `*` matches one segment (or part of
+ * one, as in `*At`), `**` matches any number of segments, `[*]` matches any
+ * array index and `[2]` a specific one. A pattern made of a single key
+ * (e.g. `'password'`) matches that key at any depth; longer patterns are
+ * anchored at the root.
+ *
+ * @param patterns - String patterns and predicates
+ * @returns A predicate matching a path when any pattern does
+ */
+export function compilePathPatterns(patterns: PathPattern[]): PathPredicate {
+  const matchers = patterns.map((pattern): PathPredicate => {
+    if (typeof pattern === 'function') {
+      return pattern;
+    }
+
+    const tokens = pattern.match(/[^.[\]]+|\[[^\]]*\]/g) ?? [];
+    if (tokens.length === 1 && !tokens[0].startsWith('[')) {
+      tokens.unshift('**');
+    }
+    const segments = tokens.map(compileSegment);
+    return (path) => matchSegments(segments, 0, path, 0);
+  });
+
+  return (path, oldValue, newValue) =>
+    matchers.some((matcher) => matcher(path, oldValue, newValue));
+}
+
+/**
+ * A compiled pattern segment: `'**'` or a test for a single path segment
+ */
+type SegmentMatcher = '**' | ((segment: string) => boolean);
+
+function compileSegment(token: string): SegmentMatcher {
+  if (token === '**') {
+    return '**';
+  }
+  if (token === '[*]') {
+    return (segment) => /^\d+$/.test(segment);
+  }
+  if (token.startsWith('[')) {
+    const index = token.slice(1, -1);
+    return (segment) => segment === index;
+  }
+  if (token.includes('*')) {
+    const source = token
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    const regex = new RegExp(`^${source}$`);
+    return (segment) => regex.test(segment);
+  }
+  return (segment) => segment === token;
+}
+
+function matchSegments(
+  segments: SegmentMatcher[],
+  segmentIndex: number,
+  path: string[],
+  pathIndex: number,
+): boolean {
+  if (segmentIndex === segments.length) {
+    return pathIndex === path.length;
+  }
+
+  const segment = segments[segmentIndex];
+  if (segment === '**') {
+    return (
+      matchSegments(segments, segmentIndex + 1, path, pathIndex) ||
+      (pathIndex < path.length &&
+        matchSegments(segments, segmentIndex, path, pathIndex + 1))
+    );
+  }
+
+  return (
+    pathIndex < path.length &&
+    segment(path[pathIndex]) &&
+    matchSegments(segments, segmentIndex + 1, path, pathIndex + 1)
+  );
+}
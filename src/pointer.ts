@@ -0,0 +1,109 @@
+import { PathSegment } from './types';
+
+/**
+ * Escape a single JSON Pointer reference token (RFC 6901)
+ *
+ * @param segment - Object key or array index
+ * @returns The token with `~` and `/` escaped as `~0` and `~1`
+ */
+export function escapePointerSegment(segment: PathSegment): string {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * Append a reference token to a JSON Pointer
+ *
+ * @param pointer - The parent pointer (`''` for the whole document)
+ * @param segment - Object key or array index
+ * @returns The child pointer
+ */
+export function appendPointer(pointer: string, segment: PathSegment): string {
+  return `${pointer}/${escapePointerSegment(segment)}`;
+}
+
+/**
+ * Format path segments as a JSON Pointer
+ *
+ * @param segments - Object keys and array indices from the root
+ * @returns The pointer, e.g. `/users/0/name` (`''` for the root)
+ */
+export function formatPointer(segments: readonly PathSegment[]): string {
+  return segments.reduce<string>(appendPointer, '');
+}
+
+/**
+ * Parse a JSON Pointer into its reference tokens. Pointers do not say
+ * whether a token is a key or an index, so every token is a string.
+ *
+ * @param pointer - A JSON Pointer such as `/users/0/name`
+ * @returns The unescaped tokens
+ * @throws Error when the pointer is malformed
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') {
+    return [];
+  }
+  if (!pointer.startsWith('/') || /~(?![01])/.test(pointer)) {
+    throw new Error(`Invalid JSON Pointer: ${pointer}`);
+  }
+
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Format path segments as a JSONPath expression. Numbers become indices,
+ * keys use dot notation when they are identifiers and quoted brackets
+ * otherwise.
+ *
+ * @param segments - Object keys and array indices from the root
+ * @returns The expression, e.g. `$.users[0].name` or `$['a.b']`
+ */
+export function formatJsonPath(segments: readonly PathSegment[]): string {
+  return segments.reduce<string>((path, segment) => {
+    if (typeof segment === 'number') {
+      return `${path}[${segment}]`;
+    }
+    if (/^[A-Za-z_$][\w$]*$/.test(segment)) {
+      return `${path}.${segment}`;
+    }
+    return `${path}['${segment.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}']`;
+  }, '$');
+}
+
+/**
+ * Parse a JSONPath expression made of names and indices (`.name`,
+ * `['name']`, `["name"]`, `[0]`) into typed path segments
+ *
+ * @param jsonPath - An expression such as `$.users[0].name`
+ * @returns Keys as strings and indices as numbers
+ * @throws Error when the expression is malformed or uses other selectors
+ */
+export function parseJsonPath(jsonPath: string): PathSegment[] {
+  const token =
+    /\.([A-Za-z_$][\w$]*)|\[(\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\]/y;
+  const segments: PathSegment[] = [];
+
+  if (!jsonPath.startsWith('$')) {
+    throw new Error(`Invalid JSONPath: ${jsonPath}`);
+  }
+
+  token.lastIndex = 1;
+  while (token.lastIndex < jsonPath.length) {
+    const match = token.exec(jsonPath);
+    if (!match) {
+      throw new Error(`Invalid JSONPath: ${jsonPath}`);
+    }
+
+    const [, name, index, single, double] = match;
+    if (index !== undefined) {
+      segments.push(Number(index));
+    } else {
+      segments.push(name ?? (single ?? double).replace(/\\(.)/g, '$1'));
+    }
+  }
+
+  return segments;
+}
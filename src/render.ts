@@ -0,0 +1,129 @@
+import { isOutputPath } from './paths';
+import {
+  DiffOptions,
+  DiffResult,
+  DiffType,
+  RenderContext,
+  Renderer,
+} from './types';
+import { isList } from './values';
+
+/**
+ * Render a diff result through a renderer, without the summary
+ */
+export function renderDiff(
+  diff: DiffResult,
+  renderer: Renderer,
+  context: RenderContext,
+): string {
+  const { full = false } = context.options;
+
+  // For unchanged values with no children, we may skip them unless full output is requested
+  if (
+    diff.type === DiffType.UNCHANGED &&
+    !full &&
+    (!diff.children || diff.children.length === 0)
+  ) {
+    return '';
+  }
+
+  return renderNode(diff, renderer, context);
+}
+
+/**
+ * Render a value through the renderer hooks: objects and arrays with
+ * changes inside as their opening line, visible entries and closing line,
+ * anything else as a single entry
+ */
+export function renderNode(
+  node: DiffResult,
+  renderer: Renderer,
+  context: RenderContext,
+): string {
+  if (node.children && node.children.length > 0) {
+    return renderContainer(node, node.children, renderer, context);
+  }
+
+  switch (node.type) {
+    case DiffType.ADDED:
+      return renderer.added(node, context);
+    case DiffType.REMOVED:
+      return renderer.removed(node, context);
+    case DiffType.UNCHANGED:
+      return renderer.unchanged(node, context);
+    case DiffType.MOVED:
+      if (renderer.moved) {
+        return renderer.moved(node, context);
+      }
+      break;
+    default:
+      if (node.meta?.collapsed && renderer.collapsed) {
+        return renderer.collapsed(node, context);
+      }
+  }
+  return renderer.changed(
+    node,
+    context,
+    renderer.annotate?.(node, context) ?? '',
+  );
+}
+
+/**
+ * Render an object or array. Unchanged values are left out unless `full`
+ * is set; object keys selected by `outputKeys` are always shown.
+ */
+function renderContainer(
+  node: DiffResult,
+  children: DiffResult[],
+  renderer: Renderer,
+  context: RenderContext,
+): string {
+  const { options, depth } = context;
+  const list = isList(node.oldValue) || isList(node.newValue);
+
+  const entries = children
+    .filter((child) => isVisible(child, list, options))
+    .map((child) => {
+      const path = child.path ?? [];
+      return renderNode(child, renderer, {
+        path,
+        depth: depth + 1,
+        key: list ? undefined : (path[path.length - 1] ?? ''),
+        options,
+      });
+    })
+    .filter((entry) => entry !== '');
+
+  const open = list
+    ? renderer.arrayOpen(node, context)
+    : renderer.objectOpen(node, context);
+  const close = list
+    ? renderer.arrayClose(node, context)
+    : renderer.objectClose(node, context);
+  const body = renderer.join
+    ? renderer.join(entries, context)
+    : entries.join('\n');
+
+  return entries.length > 0
+    ? `${open}\n${body}\n${close}`
+    : `${open}\n${close}`;
+}
+
+/**
+ * Whether an entry of a container is rendered: unchanged values only with
+ * `full`, or for object keys selected by `outputKeys`
+ */
+export function isVisible(
+  child: DiffResult,
+  list: boolean,
+  options: DiffOptions,
+): boolean {
+  const { full = false } = options;
+  return (
+    child.type !== DiffType.UNCHANGED ||
+    full ||
+    (child.children !== undefined && child.children.length > 0) ||
+    (!list &&
+      isOutputPath(options, child.path ?? [], child.oldValue, child.newValue))
+  );
+}
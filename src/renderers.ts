@@ -0,0 +1,219 @@
+import { colors, Palette, paletteFor } from './colors';
+import { DiffHunk, DiffResult, RenderContext, Renderer } from './types';
+import { htmlRenderer } from './html';
+import { markdownRenderer } from './markdown';
+import { sideBySideRenderer } from './sideBySide';
+import { formatStats } from './stats';
+import {
+  formatCollapsed,
+  formatNotes,
+  formatPrimitive,
+  formatSegments,
+  formatUnchanged,
+  keyOf,
+  walkHunks,
+} from './values';
+
+/**
+ * The git-like object view: JSON-style indentation, `+`/`-` markers in
+ * the added and removed colors of the theme, unchanged values muted
+ */
+export const defaultRenderer: Renderer = {
+  objectOpen: (_result, context) => `${indentOf(context)}${keyOf(context)}{`,
+  objectClose: (_result, context) => `${indentOf(context)}}`,
+  arrayOpen: (_result, context) => `${indentOf(context)}${keyOf(context)}[`,
+  arrayClose: (_result, context) => `${indentOf(context)}]`,
+  join: (entries) => entries.join(',\n'),
+
+  added: (result, context) =>
+    paintLine(
+      indentOf(context),
+      `+ ${keyOf(context)}${formatPrimitive(result.newValue)}`,
+      'added',
+      context,
+    ),
+
+  removed: (result, context) =>
+    paintLine(
+      indentOf(context),
+      `- ${keyOf(context)}${formatPrimitive(result.oldValue)}`,
+      'removed',
+      context,
+    ),
+
+  unchanged: (result, context) =>
+    paintLine(
+      indentOf(context),
+      `  ${formatUnchanged(result, context)}`,
+      'muted',
+      context,
+    ),
+
+  moved: (result, context) =>
+    paintLine(
+      indentOf(context),
+      `~ ${keyOf(context)}${formatPrimitive(result.newValue)} (moved from ${result.meta?.fromIndex} to ${result.meta?.toIndex})`,
+      'moved',
+      context,
+    ),
+
+  collapsed: (result, context) => {
+    const summary = formatCollapsed(
+      result.newValue,
+      result.meta?.changeCount ?? 0,
+    );
+    return paintLine(
+      indentOf(context),
+      `  ${keyOf(context)}${summary}`,
+      'moved',
+      context,
+    );
+  },
+
+  changed: renderChangedBlock,
+
+  annotate: (result, { options }) => {
+    const palette = paletteFor(options);
+    return formatNotes(result, options)
+      .map((note) =>
+        palette ? `${palette.muted} (${note})${colors.reset}` : ` (${note})`,
+      )
+      .join('');
+  },
+
+  summary: (stats, context) =>
+    paintLine('', formatStats(stats), 'muted', context),
+};
+
+const renderers = new Map<string, Renderer>([
+  ['default', defaultRenderer],
+  ['html', htmlRenderer],
+  ['markdown', markdownRenderer],
+  ['side-by-side', sideBySideRenderer],
+]);
+
+/**
+ * Formats with their own layout rather than a renderer
+ */
+const reservedFormats = new Set(['unified']);
+
+/**
+ * Make a renderer available under a name, for use as `format: name`.
+ * Registering a name again replaces the previous renderer.
+ *
+ * @param name - Name to pass as the `format` option
+ * @param renderer - The renderer
+ * @throws Error when the name is `'unified'`, which is not a renderer
+ */
+export function registerRenderer(name: string, renderer: Renderer): void {
+  if (reservedFormats.has(name)) {
+    throw new Error(`Cannot register a renderer named "${name}"`);
+  }
+  renderers.set(name, renderer);
+}
+
+/**
+ * Renderer for the `format` option: a renderer given directly, or the one
+ * registered under the name
+ *
+ * @throws Error when no renderer is registered under the name
+ */
+export function resolveRenderer(
+  format: string | Renderer = 'default',
+): Renderer {
+  if (typeof format !== 'string') {
+    return format;
+  }
+
+  const renderer = renderers.get(format);
+  if (!renderer) {
+    throw new Error(`Unknown format: ${format}`);
+  }
+  return renderer;
+}
+
+function indentOf(context: RenderContext): string {
+  return '  '.repeat(context.depth);
+}
+
+function paintLine(
+  indent: string,
+  text: string,
+  role: keyof Palette,
+  { options }: RenderContext,
+): string {
+  const palette = paletteFor(options);
+  return palette
+    ? `${indent}${palette[role]}${text}${colors.reset}`
+    : `${indent}${text}`;
+}
+
+/**
+ * Render a changed value as a "+ then -" block. Multi-line strings with
+ * line hunks are rendered as hunks under the key.
+ */
+function renderChangedBlock(
+  result: DiffResult,
+  context: RenderContext,
+  annotation: string,
+): string {
+  const { meta, newValue, oldValue } = result;
+  const { highlight = false } = context.options;
+  const palette = paletteFor(context.options);
+  const indent = indentOf(context);
+  const { key } = context;
+
+  if (meta?.hunks) {
+    if (key) {
+      return `${indent}${key}:${annotation}\n${renderHunks(meta.hunks, palette, `${indent}  `)}`;
+    }
+    return `${renderHunks(meta.hunks, palette, indent)}${annotation}`;
+  }
+
+  const keyPrefix = keyOf(context);
+  const inline = highlight ? meta?.segments : undefined;
+  const newText = inline
+    ? formatSegments(inline, 'insert', palette !== undefined)
+    : formatPrimitive(newValue);
+  const oldText = inline
+    ? formatSegments(inline, 'delete', palette !== undefined)
+    : formatPrimitive(oldValue);
+  const newLine = palette
+    ? `${indent}${palette.added}+ ${keyPrefix}${newText}${annotation}${colors.reset}`
+    : `${indent}+ ${keyPrefix}${newText}${annotation}`;
+  const oldLine = palette
+    ? `${indent}${palette.removed}- ${keyPrefix}${oldText}${colors.reset}`
+    : `${indent}- ${keyPrefix}${oldText}`;
+  return `${newLine}\n${oldLine}`;
+}
+
+/**
+ * Render line hunks under their `@@` headers, added lines first in each run
+ * of changed lines
+ */
+function renderHunks(
+  hunks: DiffHunk[],
+  palette: Palette | undefined,
+  indent: string,
+): string {
+  const paint = (text: string, role: keyof Palette) =>
+    palette
+      ? `${indent}${palette[role]}${text}${colors.reset}`
+      : `${indent}${text}`;
+
+  return walkHunks(hunks)
+    .flatMap((row) => {
+      switch (row.type) {
+        case 'header':
+          return [paint(row.text, 'muted')];
+        case 'context':
+          return [paint(`  ${row.text}`, 'muted')];
+        case 'change':
+          return [
+            ...row.added.map((line) => paint(`+ ${line}`, 'added')),
+            ...row.removed.map((line) => paint(`- ${line}`, 'removed')),
+          ];
+      }
+    })
+    .join('\n');
+}
@@ -0,0 +1,54 @@
+import { affixDiff, myersDiff } from './myers';
+import { DiffSegment, SegmentGranularity } from './types';
+
+/**
+ * Split a string into the tokens compared at the given granularity.
+ * Word granularity keeps whitespace and punctuation as their own tokens so
+ * joining the tokens always reproduces the input.
+ */
+function tokenize(value: string, granularity: SegmentGranularity): string[] {
+  if (granularity === 'word') {
+    return value.match(/\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? [];
+  }
+  return Array.from(value);
+}
+
+/**
+ * Compute the equal/insert/delete runs that turn one string into another
+ *
+ * @param oldValue - The original string
+ * @param newValue - The new string
+ * @param granularity - Compare by character or by word
+ * @param approximate - Only match the common prefix and suffix, in linear
+ *   time, for strings too long or too different to align
+ * @returns Consecutive runs, adjacent runs of the same type merged
+ */
+export function diffSegments(
+  oldValue: string,
+  newValue: string,
+  granularity: SegmentGranularity = 'char',
+  approximate = false,
+): DiffSegment[] {
+  const oldTokens = tokenize(oldValue, granularity);
+  const newTokens = tokenize(newValue, granularity);
+  const segments: DiffSegment[] = [];
+
+  const operations = approximate
+    ? affixDiff(oldTokens, newTokens)
+    : myersDiff(oldTokens, newTokens);
+
+  for (const op of operations) {
+    const type = op.type;
+    const value =
+      op.type === 'insert' ? newTokens[op.newIndex] : oldTokens[op.oldIndex];
+    const last = segments[segments.length - 1];
+
+    if (last && last.type === type) {
+      last.value += value;
+    } else {
+      segments.push({ type, value });
+    }
+  }
+
+  return segments;
+}
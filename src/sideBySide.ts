@@ -0,0 +1,255 @@
+import { padAnsi, wrapAnsi } from './ansi';
+import { colors, Palette, paletteFor } from './colors';
+import { formatStats } from './stats';
+import { DiffHunk, DiffResult, RenderContext, Renderer } from './types';
+import {
+  formatCollapsed,
+  formatNotes,
+  formatPrimitive,
+  formatSegments,
+  formatUnchanged,
+  keyOf,
+  walkHunks,
+} from './values';
+
+/**
+ * Text shown on one side of a row: a marker (none for brackets), the text
+ * and the role of its color in the theme
+ */
+interface Cell {
+  marker: string;
+  text: string;
+  role?: keyof Palette;
+}
+
+const separator = ' │ ';
+const minColumn = 20;
+
+/**
+ * Old values on the left, new values on the right, in columns filling
+ * `width`. Values too long for their column wrap onto more rows, and every
+ * left cell is padded so the separator lines up, whatever escape codes the
+ * cell holds.
+ */
+export const sideBySideRenderer: Renderer = {
+  objectOpen: (_result, context) =>
+    mirrorRow({ marker: '', text: `${keyOf(context)}{` }, context),
+  objectClose: (_result, context) =>
+    mirrorRow({ marker: '', text: '}' }, context),
+  arrayOpen: (_result, context) =>
+    mirrorRow({ marker: '', text: `${keyOf(context)}[` }, context),
+  arrayClose: (_result, context) =>
+    mirrorRow({ marker: '', text: ']' }, context),
+
+  added: (result, context) =>
+    renderRow(
+      undefined,
+      {
+        marker: '+',
+        text: `${keyOf(context)}${formatPrimitive(result.newValue)}`,
+        role: 'added',
+      },
+      context,
+    ),
+
+  removed: (result, context) =>
+    renderRow(
+      {
+        marker: '-',
+        text: `${keyOf(context)}${formatPrimitive(result.oldValue)}`,
+        role: 'removed',
+      },
+      undefined,
+      context,
+    ),
+
+  unchanged: (result, context) =>
+    mirrorRow(
+      { marker: ' ', text: formatUnchanged(result, context), role: 'muted' },
+      context,
+    ),
+
+  moved: (result, context) => {
+    const text = `${keyOf(context)}${formatPrimitive(result.newValue)}`;
+    return renderRow(
+      { marker: '~', text, role: 'moved' },
+      {
+        marker: '~',
+        text: `${text} (moved from ${result.meta?.fromIndex} to ${result.meta?.toIndex})`,
+        role: 'moved',
+      },
+      context,
+    );
+  },
+
+  collapsed: (result, context) =>
+    mirrorRow(
+      {
+        marker: ' ',
+        text: `${keyOf(context)}${formatCollapsed(
+          result.newValue,
+          result.meta?.changeCount ?? 0,
+        )}`,
+        role: 'moved',
+      },
+      context,
+    ),
+
+  changed: renderChangedRow,
+
+  annotate: (result, { options }) => {
+    const palette = paletteFor(options);
+    return formatNotes(result, options)
+      .map((note) =>
+        palette ? `${palette.muted} (${note})${colors.reset}` : ` (${note})`,
+      )
+      .join('');
+  },
+
+  summary: (stats, { options }) => {
+    const palette = paletteFor(options);
+    const text = formatStats(stats);
+    return palette ? `${palette.muted}${text}${colors.reset}` : text;
+  },
+};
+
+function mirrorRow(cell: Cell, context: RenderContext): string {
+  return renderRow(cell, cell, context);
+}
+
+/**
+ * Lay out two cells next to each other, wrapping both to the column width
+ * and padding the shorter side with empty lines
+ */
+function renderRow(
+  left: Cell | undefined,
+  right: Cell | undefined,
+  context: RenderContext,
+): string {
+  const { width = 80 } = context.options;
+  const column = Math.max(
+    minColumn,
+    Math.floor((width - separator.length) / 2),
+  );
+  const leftLines = left ? cellLines(left, column, context) : [];
+  const rightLines = right ? cellLines(right, column, context) : [];
+
+  const rows: string[] = [];
+  for (let i = 0; i < Math.max(leftLines.length, rightLines.length); i++) {
+    const rightLine = rightLines[i] ?? '';
+    rows.push(
+      rightLine
+        ? `${padAnsi(leftLines[i] ?? '', column)}${separator}${rightLine}`
+        : `${padAnsi(leftLines[i] ?? '', column)}${separator.trimEnd()}`,
+    );
+  }
+  return rows.join('\n');
+}
+
+/**
+ * Wrap a cell to the column width. Continuation lines are indented to the
+ * text after the marker; indentation is capped at half the column so deep
+ * values keep room for their text.
+ */
+function cellLines(
+  cell: Cell,
+  column: number,
+  { depth, options }: RenderContext,
+): string[] {
+  const palette = paletteFor(options);
+  const indent = '  '.repeat(depth).slice(0, Math.floor(column / 2));
+  const marker = cell.marker ? `${cell.marker} ` : '';
+  const paint = (text: string) =>
+    palette && cell.role ? `${palette[cell.role]}${text}${colors.reset}` : text;
+
+  return wrapAnsi(
+    paint(`${marker}${cell.text}`),
+    column - indent.length,
+    marker.length,
+  ).map((line) => `${indent}${line}`);
+}
+
+/**
+ * Render a changed value with the old value on the left and the new one on
+ * the right. Multi-line strings with line hunks are rendered as hunks under
+ * the key, removed and added lines side by side.
+ */
+function renderChangedRow(
+  result: DiffResult,
+  context: RenderContext,
+  annotation: string,
+): string {
+  const { meta, newValue, oldValue } = result;
+  const { highlight = false } = context.options;
+  const color = paletteFor(context.options) !== undefined;
+
+  if (meta?.hunks) {
+    const hunkContext = context.key
+      ? { ...context, depth: context.depth + 1 }
+      : context;
+    const hunks = renderHunks(meta.hunks, hunkContext);
+    if (!context.key) {
+      return hunks;
+    }
+    const keyRow = renderRow(
+      { marker: '', text: `${context.key}:` },
+      { marker: '', text: `${context.key}:${annotation}` },
+      context,
+    );
+    return `${keyRow}\n${hunks}`;
+  }
+
+  const inline = highlight ? meta?.segments : undefined;
+  const newText = inline
+    ? formatSegments(inline, 'insert', color)
+    : formatPrimitive(newValue);
+  const oldText = inline
+    ? formatSegments(inline, 'delete', color)
+    : formatPrimitive(oldValue);
+  return renderRow(
+    { marker: '-', text: `${keyOf(context)}${oldText}`, role: 'removed' },
+    {
+      marker: '+',
+      text: `${keyOf(context)}${newText}${annotation}`,
+      role: 'added',
+    },
+    context,
+  );
+}
+
+/**
+ * Render line hunks under their `@@` headers, pairing each run of removed
+ * lines with the added lines that replace it
+ */
+function renderHunks(hunks: DiffHunk[], context: RenderContext): string {
+  const rows: string[] = [];
+
+  for (const row of walkHunks(hunks)) {
+    if (row.type === 'header') {
+      rows.push(
+        mirrorRow({ marker: '', text: row.text, role: 'muted' }, context),
+      );
+    } else if (row.type === 'context') {
+      rows.push(
+        mirrorRow({ marker: ' ', text: row.text, role: 'muted' }, context),
+      );
+    } else {
+      const { added, removed } = row;
+      for (let i = 0; i < Math.max(added.length, removed.length); i++) {
+        rows.push(
+          renderRow(
+            i < removed.length
+              ? { marker: '-', text: removed[i], role: 'removed' }
+              : undefined,
+            i < added.length
+              ? { marker: '+', text: added[i], role: 'added' }
+              : undefined,
+            context,
+          ),
+        );
+      }
+    }
+  }
+
+  return rows.join('\n');
+}
@@ -0,0 +1,276 @@
+import { matchArrays } from './alignment';
+import { Ancestors, findCycle, isReference, withinAncestors } from './cycles';
+import { isEqual } from './equal';
+import { elementSegment, pairMembers } from './matching';
+import { comparatorVerdict, isIgnoredPath } from './paths';
+import { DiffOptions, DiffResult, DiffType, SerializableValue } from './types';
+import { isJsonConvertible, isObject, jsonForm, valueType } from './utils';
+
+/**
+ * Aggregate the children of an object, array, map or set result into the
+ * similarity of the whole container and the number of changes below it.
+ * Each child weighs as much as the leaf values it spans, so a changed key
+ * holding a large subtree counts more than a changed flag.
+ *
+ * @param children - Child results of a container diff
+ * @returns Similarity (0-1) and number of changed leaves
+ */
+export function summarizeChildren(children: DiffResult[]): {
+  similarity: number;
+  changeCount: number;
+} {
+  let total = 0;
+  let weighted = 0;
+  let changeCount = 0;
+
+  for (const child of children) {
+    const size = nodeSize(child);
+    total += size;
+    weighted += size * nodeSimilarity(child);
+    changeCount += nodeChangeCount(child);
+  }
+
+  return { similarity: total > 0 ? weighted / total : 1, changeCount };
+}
+
+/**
+ * Summarize two containers of the same kind collapsed by `maxDepth` without
+ * building their diff: a walk following the rules of createDiff counts the
+ * changed values, comparing leaves with isEqual, and the similarity is the
+ * share of leaf values left unchanged.
+ *
+ * @param oldValue - The original container
+ * @param newValue - The new container
+ * @param options - Configuration options
+ * @param path - Path of the containers in the object tree
+ * @param ancestors - Objects being compared by the enclosing calls
+ * @returns Similarity (0-1) and number of changed leaves
+ */
+export function summarizeCollapsed(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  options: DiffOptions,
+  path: string[],
+  ancestors: Ancestors,
+): { similarity: number; changeCount: number } {
+  const changeCount = countChildChanges(
+    oldValue,
+    newValue,
+    options,
+    path,
+    ancestors,
+  );
+  const size = Math.max(valueSize(oldValue), valueSize(newValue));
+  return { similarity: Math.max(0, 1 - changeCount / size), changeCount };
+}
+
+/**
+ * Number of changes createDiff would count for two values
+ */
+function countChanges(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  options: DiffOptions,
+  path: string[],
+  ancestors: Ancestors,
+): number {
+  if (oldValue === undefined || newValue === undefined) {
+    return oldValue === newValue ? 0 : 1;
+  }
+
+  const verdict = comparatorVerdict(options, path, oldValue, newValue);
+  if (verdict) {
+    return verdict.equal ? 0 : 1;
+  }
+
+  if (isJsonConvertible(oldValue) || isJsonConvertible(newValue)) {
+    return countChanges(
+      jsonForm(oldValue),
+      jsonForm(newValue),
+      options,
+      path,
+      ancestors,
+    );
+  }
+
+  const isContainer =
+    valueType(oldValue) === valueType(newValue) &&
+    (Array.isArray(oldValue) ||
+      isObject(oldValue) ||
+      oldValue instanceof Map ||
+      oldValue instanceof Set);
+  if (!isContainer || !isReference(oldValue) || !isReference(newValue)) {
+    return isEqual(oldValue, newValue, options, path, ancestors) ? 0 : 1;
+  }
+
+  const cycle = findCycle(ancestors, oldValue, newValue);
+  if (cycle) {
+    return cycle.oldTarget === cycle.newTarget ? 0 : 1;
+  }
+  return withinAncestors(ancestors, oldValue, newValue, path, () =>
+    countChildChanges(oldValue, newValue, options, path, ancestors),
+  );
+}
+
+/**
+ * Number of changes within two containers of the same kind, pairing their
+ * children the way createDiff does
+ */
+function countChildChanges(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  options: DiffOptions,
+  path: string[],
+  ancestors: Ancestors,
+): number {
+  if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    return countArrayChanges(oldValue, newValue, options, path, ancestors);
+  }
+
+  if (oldValue instanceof Set && newValue instanceof Set) {
+    const oldItems = [...oldValue];
+    const newItems = [...newValue];
+    const itemPath = (newIndex: number) => [...path, newIndex.toString()];
+    const pairs = pairMembers(oldItems, newItems, (candidate, item, newIndex) =>
+      isEqual(candidate, item, options, itemPath(newIndex), ancestors),
+    );
+
+    let count = 0;
+    let paired = 0;
+    pairs.forEach((oldIndex, newIndex) => {
+      if (oldIndex === undefined) {
+        count++;
+        return;
+      }
+      paired++;
+      count += countChanges(
+        oldItems[oldIndex],
+        newItems[newIndex],
+        options,
+        itemPath(newIndex),
+        ancestors,
+      );
+    });
+    // Old members left unpaired were removed
+    return count + oldItems.length - paired;
+  }
+
+  const [oldEntries, newEntries] =
+    oldValue instanceof Map && newValue instanceof Map
+      ? [oldValue, newValue]
+      : [
+          new Map<SerializableValue, SerializableValue>(
+            Object.entries(oldValue as Record<string, SerializableValue>),
+          ),
+          new Map<SerializableValue, SerializableValue>(
+            Object.entries(newValue as Record<string, SerializableValue>),
+          ),
+        ];
+
+  let count = 0;
+  for (const key of new Set([...oldEntries.keys(), ...newEntries.keys()])) {
+    const childPath = [...path, String(key)];
+    const oldChild = oldEntries.get(key);
+    const newChild = newEntries.get(key);
+    if (!isIgnoredPath(options, childPath, oldChild, newChild)) {
+      count += countChanges(oldChild, newChild, options, childPath, ancestors);
+    }
+  }
+  return count;
+}
+
+/**
+ * Number of changes within two arrays, aligned by key, LCS or position
+ */
+function countArrayChanges(
+  oldArray: SerializableValue[],
+  newArray: SerializableValue[],
+  options: DiffOptions,
+  path: string[],
+  ancestors: Ancestors,
+): number {
+  const { matches } = matchArrays(oldArray, newArray, options, path, ancestors);
+  return matches.reduce(
+    (sum, match) =>
+      sum +
+      (match.type === 'match'
+        ? // A keyed element that left its order counts as moved at least
+          Math.max(
+            countChanges(
+              oldArray[match.oldIndex],
+              newArray[match.newIndex],
+              options,
+              [...path, elementSegment(match)],
+              ancestors,
+            ),
+            match.moved ? 1 : 0,
+          )
+        : 1),
+    0,
+  );
+}
+
+/**
+ * Similarity (0-1) of a diff result: recorded for strings and containers,
+ * 1 for unchanged and moved values, 0 for anything else
+ */
+export function nodeSimilarity(node: DiffResult): number {
+  if (node.meta?.similarity !== undefined) {
+    return node.meta.similarity;
+  }
+  return node.type === DiffType.UNCHANGED || node.type === DiffType.MOVED
+    ? 1
+    : 0;
+}
+
+function nodeChangeCount(node: DiffResult): number {
+  if (node.meta?.changeCount !== undefined) {
+    return node.meta.changeCount;
+  }
+  return node.type === DiffType.UNCHANGED ? 0 : 1;
+}
+
+/**
+ * Number of leaf values a diff result spans on the larger side
+ */
+function nodeSize(node: DiffResult): number {
+  switch (node.type) {
+    case DiffType.ADDED:
+      return valueSize(node.newValue);
+    case DiffType.REMOVED:
+      return valueSize(node.oldValue);
+  }
+
+  if (node.children && node.children.length > 0) {
+    return node.children.reduce((sum, child) => sum + nodeSize(child), 0);
+  }
+  return Math.max(valueSize(node.oldValue), valueSize(node.newValue));
+}
+
+/**
+ * Number of leaf values in a value; empty containers count as one leaf
+ */
+function valueSize(
+  value: SerializableValue,
+  ancestors: Set<object> = new Set(),
+): number {
+  const items = Array.isArray(value)
+    ? value
+    : value instanceof Map || value instanceof Set
+      ? [...value.values()]
+      : isObject(value)
+        ? Object.values(value)
+        : undefined;
+
+  if (!items || items.length === 0 || ancestors.has(value as object)) {
+    return 1;
+  }
+
+  ancestors.add(value as object);
+  const size = items.reduce<number>(
+    (sum, item) => sum + valueSize(item, ancestors),
+    0,
+  );
+  ancestors.delete(value as object);
+  return size;
+}
@@ -0,0 +1,92 @@
+import { DiffCounts, DiffResult, DiffStats, DiffType } from './types';
+
+/**
+ * Count the changed leaves of a diff result. Values that changed type count
+ * as changed; containers with changes inside are not counted themselves,
+ * except for containers collapsed by `maxDepth`, whose changes all count as
+ * changed.
+ *
+ * @param result - A diff result from `diffRaw`
+ * @returns Totals, the deepest changed path and counts per top-level key
+ */
+export function collectStats(result: DiffResult): DiffStats {
+  const stats: DiffStats = { ...emptyCounts(), byKey: {} };
+
+  if (result.children && result.children.length > 0) {
+    for (const child of result.children) {
+      const key = child.path?.[child.path.length - 1] ?? '';
+      const counts = emptyCounts();
+      countLeaves(child, [stats, counts], stats);
+      if (counts.added + counts.removed + counts.changed + counts.moved > 0) {
+        stats.byKey[key] = counts;
+      }
+    }
+  } else {
+    countLeaves(result, [stats], stats);
+  }
+
+  return stats;
+}
+
+/**
+ * One-line summary of the counts, e.g. `3 changed, 1 added, 2 removed`.
+ * Moves are only mentioned when there are any.
+ */
+export function formatStats(counts: DiffCounts): string {
+  const parts = [
+    `${counts.changed} changed`,
+    `${counts.added} added`,
+    `${counts.removed} removed`,
+  ];
+  if (counts.moved > 0) {
+    parts.push(`${counts.moved} moved`);
+  }
+  return parts.join(', ');
+}
+
+function emptyCounts(): DiffCounts {
+  return { added: 0, removed: 0, changed: 0, moved: 0 };
+}
+
+function countLeaves(
+  node: DiffResult,
+  targets: DiffCounts[],
+  stats: DiffStats,
+): void {
+  if (node.children && node.children.length > 0) {
+    for (const child of node.children) {
+      countLeaves(child, targets, stats);
+    }
+    return;
+  }
+
+  const field = countField(node.type);
+  if (!field) {
+    return;
+  }
+
+  // A container collapsed by maxDepth only knows how many changes it holds
+  const amount = node.meta?.collapsed ? (node.meta.changeCount ?? 1) : 1;
+  for (const counts of targets) {
+    counts[field] += amount;
+  }
+  const path = node.path ?? [];
+  if (!stats.deepestPath || path.length > stats.deepestPath.length) {
+    stats.deepestPath = path;
+  }
+}
+
+function countField(type: DiffType): keyof DiffCounts | undefined {
+  switch (type) {
+    case DiffType.ADDED:
+      return 'added';
+    case DiffType.REMOVED:
+      return 'removed';
+    case DiffType.CHANGED:
+    case DiffType.TYPE_CHANGED:
+      return 'changed';
+    case DiffType.MOVED:
+      return 'moved';
+  }
+  return undefined;
+}
@@ -3,10 +3,19 @@
  */
 export interface DiffOptions {
   /**
-   * Whether to use colorized output
+   * Whether to use colorized output. `'auto'` colors output to a terminal:
+   * `FORCE_COLOR` turns colors on (or off when `0`), otherwise `NO_COLOR`,
+   * `TERM=dumb` or a stdout that is not a TTY turn them off.
    * @default true
    */
-  color?: boolean;
+  color?: boolean | 'auto';
+
+  /**
+   * Colors of the terminal output: the name of a preset, or colors by role
+   * replacing those of the default theme
+   * @default 'default'
+   */
+  theme?: ThemeName | Partial<ColorTheme>;
 
   /**
    * Only compare object keys/structure (ignore values)
@@ -21,16 +30,18 @@ export interface DiffOptions {
   full?: boolean;
 
   /**
-   * Always include these keys in output for objects with differences
+   * Always include these keys in output for objects with differences.
+   * Accepts key names, path patterns and predicates (see `PathPattern`)
    * @default []
    */
-  outputKeys?: string[];
+  outputKeys?: PathPattern[];
 
   /**
-   * Skip these keys when comparing objects
+   * Skip these keys when comparing objects.
+   * Accepts key names, path patterns and predicates (see `PathPattern`)
    * @default []
    */
-  ignoreKeys?: string[];
+  ignoreKeys?: PathPattern[];
 
   /**
    * Ignore value differences, focus only on structure
@@ -43,6 +54,302 @@ export interface DiffOptions {
    * @default false
    */
   withSimilarity?: boolean;
+
+  /**
+   * Report values of different types as TYPE_CHANGED. With `false`,
+   * numbers, numeric strings and booleans (`'true'`/`'false'`, `1`/`0`)
+   * are compared by value, so `'5'` equals `5`.
+   * @default true
+   */
+  strictTypes?: boolean;
+
+  /**
+   * Treat numbers as equal when they differ by at most this much. A number
+   * is an absolute tolerance; `{ relative }` scales with the larger of the
+   * two magnitudes, and both may be combined (the looser one wins).
+   */
+  tolerance?: number | NumericTolerance;
+
+  /**
+   * Tolerances for selected paths, keyed by path pattern (see
+   * `PathPattern`). The first matching pattern replaces `tolerance`.
+   */
+  pathTolerance?: Record<string, number | NumericTolerance>;
+
+  /**
+   * Show the change of numbers next to the new value, as a percentage
+   * (`+20%`) or, when the old value is zero, as a difference (`+5`)
+   * @default false
+   */
+  withDelta?: boolean;
+
+  /**
+   * Depth below which objects and arrays with changes are collapsed into a
+   * single CHANGED node (`meta.collapsed`) counting the changes inside,
+   * e.g. `1` keeps only the top-level keys
+   */
+  maxDepth?: number;
+
+  /**
+   * Custom equality for selected paths or value types. The first comparator
+   * that selects a pair of values and returns a verdict decides whether they
+   * are equal, before any built-in comparison runs.
+   * @default []
+   */
+  comparators?: Comparator[];
+
+  /**
+   * How array elements are paired up for comparison:
+   * - `'position'` compares elements index by index
+   * - `'lcs'` aligns elements with a longest-common-subsequence (Myers) diff so
+   *   insertions and deletions are reported as such, and reordered elements
+   *   are reported as moves
+   * @default 'position'
+   */
+  arrayMode?: 'position' | 'lcs';
+
+  /**
+   * Match array elements by identity instead of position. Either a property
+   * name (e.g. `'id'`), a selector function, or a map from path patterns of
+   * arrays (e.g. `'users'`, `'teams.*.members'`, `'rows[*].items'`, with the
+   * syntax of `ignoreKeys`) to one of those; the first matching entry wins.
+   * Arrays where some element has no key fall back to `arrayMode`.
+   */
+  arrayKey?: ArrayKey | Record<string, ArrayKey>;
+
+  /**
+   * Record the edit script of changed strings in `meta.segments`,
+   * comparing by character or by word
+   */
+  stringSegments?: SegmentGranularity;
+
+  /**
+   * Highlight only the edited characters inside changed string lines.
+   * Implies `stringSegments: 'char'` unless a granularity is given.
+   * @default false
+   */
+  highlight?: boolean;
+
+  /**
+   * Diff strings containing newlines line by line, recording hunks with
+   * context in `meta.hunks` and rendering them under `@@` headers
+   * @default false
+   */
+  lineDiff?: boolean;
+
+  /**
+   * Number of unchanged context lines around each hunk
+   * @default 3
+   */
+  contextLines?: number;
+
+  /**
+   * Longest string (in UTF-16 code units) to compute the Levenshtein
+   * distance for. Longer strings are compared by their common prefix and
+   * suffix, and their similarity is marked `meta.approximate`. Their
+   * segments and hunks also only match that prefix and suffix.
+   * @default Infinity
+   */
+  maxLevenLength?: number;
+
+  /**
+   * Largest Levenshtein distance worth computing exactly. Pairs of strings
+   * further apart give up early and fall back to the prefix/suffix
+   * estimate, which keeps long, very different strings cheap.
+   * @default undefined (no limit)
+   */
+  levenThreshold?: number;
+
+  /**
+   * Append a line counting the changes (`3 changed, 1 added, 2 removed`)
+   * after the rendered diff, or with `format: 'markdown'` put it in bold
+   * before the fenced block
+   * @default false
+   */
+  summary?: boolean;
+
+  /**
+   * Output format of `diff()`:
+   * - `'default'` renders the git-like object view
+   * - `'unified'` renders a unified diff (git patch) of both values
+   *   pretty-printed as JSON
+   * - `'html'` renders escaped markup with `dl-*` classes
+   * - `'markdown'` renders a ```diff fenced block, for pull request and
+   *   issue comments
+   * - `'side-by-side'` renders old and new values in two columns
+   * - the name of a renderer added with `registerRenderer`
+   * - a {@link Renderer} object
+   * @default 'default'
+   */
+  format?:
+    | 'default'
+    | 'unified'
+    | 'html'
+    | 'markdown'
+    | 'side-by-side'
+    | (string & {})
+    | Renderer;
+
+  /**
+   * Give each top-level key of an object its own fenced block in a
+   * collapsible `<details>` section (markdown output)
+   * @default false
+   */
+  markdownDetails?: boolean;
+
+  /**
+   * Total width in columns of side-by-side output. Each column gets half
+   * of it after the separator, at least 20 columns.
+   * @default 80
+   */
+  width?: number;
+
+  /**
+   * File name shown in the `---` header of unified output
+   * @default 'a'
+   */
+  oldLabel?: string;
+
+  /**
+   * File name shown in the `+++` header of unified output
+   * @default 'b'
+   */
+  newLabel?: string;
+}
+
+/**
+ * Preset color themes: `'default'` uses red, green and yellow, and
+ * `'colorblind'` blue, orange and purple, which stay apart with red-green
+ * color blindness
+ */
+export type ThemeName = 'default' | 'colorblind';
+
+/**
+ * A color of a theme: an ANSI escape code such as `'\x1b[34m'`, an index
+ * into the 256-color palette or a `'#rrggbb'` truecolor code
+ */
+export type ThemeColor = string | number;
+
+/**
+ * Colors of the terminal output by role
+ */
+export interface ColorTheme {
+  /** Added values and `+` lines */
+  added: ThemeColor;
+  /** Removed values and `-` lines */
+  removed: ThemeColor;
+  /** Moved array elements, collapsed subtrees and `theirs` in conflicts */
+  moved: ThemeColor;
+  /** Unchanged values, notes, hunk headers and summaries */
+  muted: ThemeColor;
+}
+
+/**
+ * Granularity of inline string segments
+ */
+export type SegmentGranularity = 'char' | 'word';
+
+/**
+ * A run of text that is kept, inserted or deleted between two strings
+ */
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  value: string;
+}
+
+/**
+ * Selects a path given the values on both sides
+ */
+export type PathPredicate = (
+  path: string[],
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+) => boolean;
+
+/**
+ * A key name (matched at any depth), a dotted path pattern, or a predicate.
+ * In path patterns `*` matches one segment, `**` any number of segments,
+ * `[*]` any array index and `[n]` index n, e.g. `'users[*].password'`,
+ * `'meta.**'` or `'*.updatedAt'`.
+ */
+export type PathPattern = string | PathPredicate;
+
+/**
+ * Largest difference between two numbers still considered equal
+ */
+export interface NumericTolerance {
+  /** Maximum absolute difference */
+  absolute?: number;
+  /** Maximum difference relative to the larger magnitude, e.g. `0.01` */
+  relative?: number;
+}
+
+/**
+ * Kind of a value as seen by comparator type tests
+ */
+export type ValueType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'bigint'
+  | 'null'
+  | 'array'
+  | 'date'
+  | 'regexp'
+  | 'map'
+  | 'set'
+  | 'object';
+
+/**
+ * Verdict of a comparator: `true`/`false` for equal/changed, an object to
+ * attach metadata to the result, or undefined to defer to the next
+ * comparator and the built-in comparison
+ */
+export type ComparatorResult =
+  | boolean
+  | { equal: boolean; meta?: Record<string, unknown> }
+  | undefined;
+
+/**
+ * Custom comparison for the values selected by `path` and/or `type`.
+ * A comparator with neither applies to every pair of values.
+ */
+export interface Comparator {
+  /** Path pattern the compared values must sit at */
+  path?: PathPattern;
+  /** Kind both values must have, or a test both values must pass */
+  type?: ValueType | ((value: SerializableValue) => boolean);
+  /** Compare two values found on both sides */
+  compare: (
+    oldValue: SerializableValue,
+    newValue: SerializableValue,
+    path: string[],
+  ) => ComparatorResult;
+}
+
+/**
+ * Returns the identity of an array element, or undefined when it has none
+ */
+export type ArrayKeySelector = (
+  item: SerializableValue,
+  index: number,
+) => string | number | undefined;
+
+/**
+ * A property name or selector identifying array elements
+ */
+export type ArrayKey = string | ArrayKeySelector;
+
+/**
+ * A group of line changes with surrounding context, numbered like a
+ * unified diff hunk (`@@ -oldStart,oldLines +newStart,newLines @@`)
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffSegment[];
 }
 
 /**
@@ -53,6 +360,8 @@ export enum DiffType {
   REMOVED = 'removed',
   CHANGED = 'changed',
   UNCHANGED = 'unchanged',
+  MOVED = 'moved',
+  TYPE_CHANGED = 'type_changed',
 }
 
 /**
@@ -70,21 +379,261 @@ export interface DiffResult {
   meta?: {
     /** Levenshtein distance between strings */
     levenDistance?: number;
-    /** Similarity ratio (0-1) where 1 means identical */
+    /**
+     * Similarity ratio (0-1) where 1 means identical. Objects, arrays, maps
+     * and sets always carry it, aggregated from the children and weighted
+     * by size
+     */
     similarity?: number;
+    /**
+     * Set when `levenDistance` and `similarity` of strings are estimated
+     * from their common prefix and suffix (see `maxLevenLength`)
+     */
+    approximate?: boolean;
+    /**
+     * Number of changed values within an object, array, map or set. Set on
+     * every such result, `0` when it is unchanged.
+     */
+    changeCount?: number;
+    /** Set on containers whose children were dropped because of `maxDepth` */
+    collapsed?: boolean;
+    /** Original index of an array element aligned by LCS or key */
+    fromIndex?: number;
+    /** New index of an array element aligned by LCS or key */
+    toIndex?: number;
+    /** Identity of an array element matched through `arrayKey` */
+    key?: string | number;
+    /** Inline edit script for changed strings */
+    segments?: DiffSegment[];
+    /** Line hunks for changed multi-line strings */
+    hunks?: DiffHunk[];
+    /** Difference `newValue - oldValue` of changed numbers */
+    delta?: number;
+    /** Change of numbers relative to a non-zero old value, in percent */
+    percentChange?: number;
+    /**
+     * Path of the enclosing value a circular reference points back to (the
+     * new side's when the two sides point to different places)
+     */
+    circular?: string[];
+    /** Kind of the old value of a TYPE_CHANGED result */
+    oldType?: ValueType;
+    /** Kind of the new value of a TYPE_CHANGED result */
+    newType?: ValueType;
     /** Any other metadata properties */
     [key: string]: unknown;
   };
 }
 
 /**
- * Type for handling any serializable value
+ * Where a value being rendered sits in the diff tree
+ */
+export interface RenderContext {
+  /** Path of the value from the root */
+  path: string[];
+  /** Nesting level, 0 for the root value */
+  depth: number;
+  /** Property name when the value belongs to an object or map */
+  key?: string;
+  /** Options passed to `diff()` */
+  options: DiffOptions;
+}
+
+/**
+ * Turns the parts of a diff into text. The formatter walks the diff tree,
+ * decides which values are shown and assembles what the hooks return:
+ * containers become their opening line, their joined entries and their
+ * closing line.
+ */
+export interface Renderer {
+  /** Opening line of an object or map */
+  objectOpen(result: DiffResult, context: RenderContext): string;
+  /** Closing line of an object or map */
+  objectClose(result: DiffResult, context: RenderContext): string;
+  /** Opening line of an array or set */
+  arrayOpen(result: DiffResult, context: RenderContext): string;
+  /** Closing line of an array or set */
+  arrayClose(result: DiffResult, context: RenderContext): string;
+  /** Join the rendered entries of a container (default: one per line) */
+  join?(entries: string[], context: RenderContext): string;
+  /** A value only present in the new version */
+  added(result: DiffResult, context: RenderContext): string;
+  /** A value only present in the old version */
+  removed(result: DiffResult, context: RenderContext): string;
+  /**
+   * A value that changed (or changed type), with the note returned by
+   * `annotate`
+   */
+  changed(
+    result: DiffResult,
+    context: RenderContext,
+    annotation: string,
+  ): string;
+  /** An unchanged value shown because of `full` or `outputKeys` */
+  unchanged(result: DiffResult, context: RenderContext): string;
+  /** An array element moved to another index (default: `changed`) */
+  moved?(result: DiffResult, context: RenderContext): string;
+  /** A container collapsed by `maxDepth` (default: `changed`) */
+  collapsed?(result: DiffResult, context: RenderContext): string;
+  /**
+   * Note on a changed value: its similarity, type change or numeric change
+   * (default: none)
+   */
+  annotate?(result: DiffResult, context: RenderContext): string;
+  /** The line counting the changes, shown with `summary: true` */
+  summary?(stats: DiffStats, context: RenderContext): string;
+  /**
+   * Lay out the whole output when there is any: the rendered diff, empty
+   * when nothing changed, and the summary line with `summary: true`
+   */
+  document?(
+    result: DiffResult,
+    context: RenderContext,
+    body: string,
+    summary?: string,
+  ): string;
+}
+
+/**
+ * Number of changed leaf values by kind of change
+ */
+export interface DiffCounts {
+  added: number;
+  removed: number;
+  changed: number;
+  moved: number;
+}
+
+/**
+ * Summary of a diff for logs and dashboards
+ */
+export interface DiffStats extends DiffCounts {
+  /** Path of the most deeply nested change, if anything changed */
+  deepestPath?: string[];
+  /** Counts per top-level key or index, for keys with changes */
+  byKey: Record<string, DiffCounts>;
+}
+
+/**
+ * A path segment: an object (or map) key, or an array (or set) index
+ */
+export type PathSegment = string | number;
+
+/**
+ * One changed leaf value of a diff, addressed from the root
+ */
+export interface FlatChange {
+  type: DiffType;
+  /** Keys as strings and indices as numbers */
+  path: PathSegment[];
+  /** JSON Pointer of the value, e.g. `/users/0/name` */
+  pointer: string;
+  /** JSONPath of the value, e.g. `$.users[0].name` */
+  jsonPath: string;
+  oldValue?: SerializableValue;
+  newValue?: SerializableValue;
+  meta?: DiffResult['meta'];
+}
+
+/**
+ * A single RFC 6902 JSON Patch operation
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: SerializableValue }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: SerializableValue }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'test'; path: string; value: SerializableValue };
+
+/**
+ * Options for JSON Patch generation
+ */
+export interface JsonPatchOptions {
+  /**
+   * Precede every `replace` with a `test` of the value being replaced
+   * @default false
+   */
+  test?: boolean;
+}
+
+/**
+ * A path changed differently by both sides of a three-way merge
+ */
+export interface MergeConflict {
+  path: string[];
+  base: SerializableValue;
+  ours: SerializableValue;
+  theirs: SerializableValue;
+}
+
+/**
+ * How conflicting paths are resolved: take our value, take their value, or
+ * compute the value from the conflict
+ */
+export type MergeStrategy =
+  | 'prefer-ours'
+  | 'prefer-theirs'
+  | ((conflict: MergeConflict) => SerializableValue);
+
+/**
+ * Options for three-way merges
+ */
+export interface MergeOptions extends DiffOptions {
+  /**
+   * Resolution for conflicting paths; without one the base value is kept
+   */
+  strategy?: MergeStrategy;
+}
+
+/**
+ * Outcome of a three-way merge
+ */
+export interface MergeResult {
+  /** The merged value, conflicts resolved through the strategy */
+  value: SerializableValue;
+  /** Every conflicting path, whether or not a strategy resolved it */
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Type for handling any serializable value: JSON values, the built-in types
+ * compared natively, and objects converted through their `toJSON` method
  */
 export type SerializableValue =
   | string
   | number
   | boolean
+  | bigint
   | null
   | undefined
+  | Date
+  | RegExp
+  | TypedArray
+  | Map<SerializableValue, SerializableValue>
+  | Set<SerializableValue>
+  | JsonConvertible
   | { [key: string]: SerializableValue }
   | SerializableValue[];
+
+/**
+ * A class instance compared through its JSON form
+ */
+export interface JsonConvertible {
+  toJSON(): SerializableValue;
+}
+
+/**
+ * Typed array views, compared element by element
+ */
+export type TypedArray =
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array
+  | BigInt64Array
+  | BigUint64Array;
@@ -0,0 +1,151 @@
+import {
+  JsonConvertible,
+  NumericTolerance,
+  SerializableValue,
+  TypedArray,
+  ValueType,
+} from './types';
+
+/**
+ * Check whether a value is a plain object (not null, not an array, not one
+ * of the built-in types compared natively)
+ */
+export function isObject(
+  value: SerializableValue,
+): value is { [key: string]: SerializableValue } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !isNativeObject(value)
+  );
+}
+
+/**
+ * Check whether a value is a Date, RegExp, Map, Set or typed array
+ */
+export function isNativeObject(
+  value: SerializableValue,
+): value is
+  | Date
+  | RegExp
+  | Map<SerializableValue, SerializableValue>
+  | Set<SerializableValue>
+  | TypedArray {
+  return (
+    value instanceof Date ||
+    value instanceof RegExp ||
+    value instanceof Map ||
+    value instanceof Set ||
+    isTypedArray(value)
+  );
+}
+
+/**
+ * Check whether a value is a typed array view (not a DataView)
+ */
+export function isTypedArray(value: SerializableValue): value is TypedArray {
+  return ArrayBuffer.isView(value) && !(value instanceof DataView);
+}
+
+/**
+ * Check whether a value converts itself to JSON (other than a Date)
+ */
+export function isJsonConvertible(
+  value: SerializableValue,
+): value is JsonConvertible {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Date) &&
+    typeof (value as Partial<JsonConvertible>).toJSON === 'function'
+  );
+}
+
+/**
+ * The value a class instance is compared as: the result of its `toJSON()`
+ */
+export function jsonForm(value: SerializableValue): SerializableValue {
+  return isJsonConvertible(value) ? value.toJSON() : value;
+}
+
+/**
+ * Kind of a value, as used by comparator type tests and type changes.
+ * Typed arrays and class instances are `'object'`.
+ */
+export function valueType(value: SerializableValue): ValueType | undefined {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (value instanceof Date) return 'date';
+  if (value instanceof RegExp) return 'regexp';
+  if (value instanceof Map) return 'map';
+  if (value instanceof Set) return 'set';
+  switch (typeof value) {
+    case 'string':
+      return 'string';
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'bigint':
+      return 'bigint';
+    case 'object':
+      return 'object';
+  }
+  return undefined;
+}
+
+/**
+ * Whether two Dates, RegExps or typed arrays hold the same value
+ */
+export function isSameNativeValue(
+  a: SerializableValue,
+  b: SerializableValue,
+): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return Object.is(a.getTime(), b.getTime());
+  }
+  if (a instanceof RegExp && b instanceof RegExp) {
+    return a.toString() === b.toString();
+  }
+  if (isTypedArray(a) && isTypedArray(b)) {
+    return (
+      Object.getPrototypeOf(a) === Object.getPrototypeOf(b) &&
+      a.length === b.length &&
+      Array.from(a as ArrayLike<number | bigint>).every((item, i) =>
+        Object.is(item, (b as TypedArray)[i]),
+      )
+    );
+  }
+  return false;
+}
+
+/**
+ * Whether two numbers differ by no more than the tolerance allows
+ */
+export function isWithinTolerance(
+  oldValue: number,
+  newValue: number,
+  { absolute = 0, relative = 0 }: NumericTolerance,
+): boolean {
+  const allowed = Math.max(
+    absolute,
+    relative * Math.max(Math.abs(oldValue), Math.abs(newValue)),
+  );
+  return Math.abs(newValue - oldValue) <= allowed;
+}
+
+/**
+ * Numeric value of a number, numeric string or boolean (also given as
+ * `'true'`/`'false'`), for comparisons without `strictTypes`
+ */
+export function toLooseNumber(value: SerializableValue): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return Number(value);
+  if (typeof value !== 'string') return undefined;
+
+  const text = value.trim();
+  if (text === 'true') return 1;
+  if (text === 'false') return 0;
+  return text !== '' && !Number.isNaN(Number(text)) ? Number(text) : undefined;
+}
@@ -0,0 +1,313 @@
+import { colors } from './colors';
+import {
+  DiffHunk,
+  DiffOptions,
+  DiffResult,
+  DiffSegment,
+  RenderContext,
+  SerializableValue,
+} from './types';
+import { isTypedArray } from './utils';
+
+/**
+ * Format a primitive value for output, or the reference a circular diff
+ * node points back to
+ */
+export function formatPrimitive(value: unknown, circular?: string[]): string {
+  if (circular) {
+    return formatCircular(circular);
+  }
+
+  if (value === undefined) {
+    return 'undefined';
+  }
+
+  if (value === null) {
+    return 'null';
+  }
+
+  if (typeof value === 'string') {
+    // Use JavaScript object notation with single quotes
+    return `'${value}'`;
+  }
+
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return value.toString();
+  }
+
+  if (typeof value === 'bigint') {
+    return `${value}n`;
+  }
+
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+  }
+
+  if (value instanceof RegExp) {
+    return value.toString();
+  }
+
+  // Maps, sets and typed arrays are labelled with their type
+  if (
+    value instanceof Map ||
+    value instanceof Set ||
+    isTypedArray(value as SerializableValue)
+  ) {
+    const json = JSON.stringify(value, jsonReplacer(), 2);
+    return `${(value as object).constructor.name} ${json}`;
+  }
+
+  // For objects and arrays, use properly formatted JavaScript object notation
+  if (typeof value === 'object') {
+    const json = JSON.stringify(value, jsonReplacer(), 2);
+    return json;
+  }
+
+  return String(value);
+}
+
+/**
+ * Create a JSON.stringify replacer for the types JSON has no notation for:
+ * maps become objects, sets and typed arrays become arrays, BigInts and
+ * regular expressions become strings, and references back to an enclosing
+ * value become `[Circular ~.path]`
+ */
+export function jsonReplacer(): (
+  this: unknown,
+  key: string,
+  value: unknown,
+) => unknown {
+  // Values being serialized from the outermost in, as given and as emitted
+  const originals: unknown[] = [];
+  const emitted: unknown[] = [];
+  const keys: string[] = [];
+
+  return function (key, value) {
+    // The holder is the innermost value still being serialized
+    const depth = emitted.lastIndexOf(this) + 1;
+    originals.length = depth;
+    emitted.length = depth;
+    keys.length = depth;
+
+    const index = originals.indexOf(value);
+    if (index !== -1) {
+      return formatCircular(keys.slice(1, index + 1));
+    }
+
+    const output = toJsonValue(value);
+    if (typeof output === 'object' && output !== null) {
+      originals.push(value);
+      emitted.push(output);
+      keys.push(key);
+    }
+    return output;
+  };
+}
+
+function toJsonValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return `${value}n`;
+  }
+  if (value instanceof RegExp) {
+    return value.toString();
+  }
+  if (value instanceof Map) {
+    return Object.fromEntries(
+      [...value].map(([key, item]) => [
+        typeof key === 'string' ? key : formatPrimitive(key),
+        item,
+      ]),
+    );
+  }
+  if (value instanceof Set || isTypedArray(value as SerializableValue)) {
+    return Array.from(value as Iterable<unknown>);
+  }
+  return value;
+}
+
+/**
+ * Notes on a changed value: its similarity (with `withSimilarity`), type
+ * change and numeric change (with `withDelta`), e.g. `80% similar`
+ */
+export function formatNotes(
+  result: DiffResult,
+  options: DiffOptions,
+): string[] {
+  const { withSimilarity = false, withDelta = false } = options;
+  const { meta } = result;
+  const notes: string[] = [];
+
+  if (withSimilarity && meta?.similarity !== undefined) {
+    const estimate = meta.approximate ? '~' : '';
+    notes.push(`${estimate}${Math.round(meta.similarity * 100)}% similar`);
+  }
+  if (meta?.oldType && meta.newType) {
+    notes.push(`${meta.oldType} → ${meta.newType}`);
+  }
+  if (withDelta && meta?.delta !== undefined) {
+    notes.push(formatChange(meta.delta, meta.percentChange));
+  }
+  return notes;
+}
+
+/**
+ * Signed change of a number: the percentage when known, else the delta
+ */
+export function formatChange(delta: number, percentChange?: number): string {
+  const value =
+    percentChange !== undefined
+      ? `${Number(percentChange.toFixed(1))}%`
+      : `${Number(delta.toPrecision(12))}`;
+  return delta > 0 ? `+${value}` : value;
+}
+
+/**
+ * Render a container collapsed by `maxDepth`, e.g. `{ … 14 changes }`
+ */
+export function formatCollapsed(value: unknown, changeCount: number): string {
+  const changes = `… ${changeCount} ${changeCount === 1 ? 'change' : 'changes'}`;
+  return isList(value) ? `[ ${changes} ]` : `{ ${changes} }`;
+}
+
+/**
+ * Render a reference back to the value at `path`, relative to the root (~)
+ */
+export function formatCircular(path: string[]): string {
+  return `[Circular ${['~', ...path].join('.')}]`;
+}
+
+/**
+ * Whether a value is rendered as a list of elements: arrays and sets
+ */
+export function isList(value: unknown): boolean {
+  return Array.isArray(value) || value instanceof Set;
+}
+
+/**
+ * Render one side of a changed string from its inline segments, quoted like
+ * formatPrimitive. Edited runs are shown in inverse video, or wrapped in
+ * `{+ +}` / `[- -]` markers when colors are off.
+ */
+export function formatSegments(
+  segments: DiffSegment[],
+  side: 'insert' | 'delete',
+  useColor: boolean,
+): string {
+  const text = segments
+    .filter((segment) => segment.type === 'equal' || segment.type === side)
+    .map((segment) => {
+      if (segment.type === 'equal') {
+        return segment.value;
+      }
+      if (useColor) {
+        return `${colors.inverse}${segment.value}${colors.noInverse}`;
+      }
+      return side === 'insert'
+        ? `{+${segment.value}+}`
+        : `[-${segment.value}-]`;
+    })
+    .join('');
+
+  return `'${text}'`;
+}
+
+/**
+ * The `key: ` prefix of a value inside an object, empty for array elements
+ * and the root
+ */
+export function keyOf(context: RenderContext): string {
+  return context.key ? `${context.key}: ` : '';
+}
+
+/**
+ * The label standing for a value skipped by `ignoreValues`, or undefined
+ * when the value itself is shown. Values skipped by ignoreValues only show
+ * their key or index; at the root there is nothing else to show.
+ */
+export function ignoredLabel(
+  result: DiffResult,
+  { path, depth, key }: RenderContext,
+): string | undefined {
+  return result.meta?.ignored && depth > 0
+    ? (key ?? path[path.length - 1] ?? '')
+    : undefined;
+}
+
+/**
+ * Text of an unchanged value: its key and value, or its ignored label
+ */
+export function formatUnchanged(
+  result: DiffResult,
+  context: RenderContext,
+): string {
+  return (
+    ignoredLabel(result, context) ??
+    `${keyOf(context)}${formatPrimitive(
+      result.newValue ?? result.oldValue,
+      result.meta?.circular,
+    )}`
+  );
+}
+
+/**
+ * A row of rendered line hunks: a hunk header, an unchanged context line, or
+ * a run of changed lines
+ */
+export type HunkRow =
+  | { type: 'header'; text: string }
+  | { type: 'context'; text: string }
+  | { type: 'change'; added: string[]; removed: string[] };
+
+/**
+ * Walk line hunks as rows to render: each hunk opens with its
+ * `@@ -a,b +c,d @@` header, and the lines of each run of changes are
+ * grouped so renderers can put the added lines first, matching the
+ * "+ then -" order used everywhere else
+ */
+export function walkHunks(hunks: DiffHunk[]): HunkRow[] {
+  const rows: HunkRow[] = [];
+
+  for (const hunk of hunks) {
+    rows.push({
+      type: 'header',
+      text: `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`,
+    });
+
+    let change: HunkRow & { type: 'change' } = {
+      type: 'change',
+      added: [],
+      removed: [],
+    };
+    const flush = () => {
+      if (change.added.length > 0 || change.removed.length > 0) {
+        rows.push(change);
+        change = { type: 'change', added: [], removed: [] };
+      }
+    };
+
+    for (const line of hunk.lines) {
+      if (line.type === 'insert') {
+        change.added.push(line.value);
+      } else if (line.type === 'delete') {
+        change.removed.push(line.value);
+      } else {
+        flush();
+        rows.push({ type: 'context', text: line.value });
+      }
+    }
+    flush();
+  }
+
+  return rows;
+}
+
+/**
+ * Escape text for use in HTML content and double-quoted attribute values
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,132 @@
+import { describe, expect, test } from 'vitest';
+import {
+  applyDiff,
+  diffRaw,
+  DiffOptions,
+  revertDiff,
+  SerializableValue,
+} from '../src';
+
+function expectRoundTrip(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  options: DiffOptions = {},
+) {
+  const result = diffRaw(oldValue, newValue, options);
+
+  expect(applyDiff(oldValue, result)).toEqual(newValue);
+  expect(revertDiff(newValue, result)).toEqual(oldValue);
+}
+
+describe('applyDiff() / revertDiff()', () => {
+  const v1 = {
+    name: 'api',
+    port: 3000,
+    tags: ['a', 'b'],
+    db: { host: 'localhost', pool: { min: 1 } },
+  };
+  const v2 = {
+    name: 'api',
+    port: 8080,
+    tags: ['a', 'b', 'c'],
+    db: { host: 'db.internal' },
+    cache: true,
+  };
+
+  test('should reconstruct both versions of an object', () => {
+    expectRoundTrip(v1, v2);
+  });
+
+  test('should reconstruct primitives and type changes', () => {
+    expectRoundTrip('hello', 'world');
+    expectRoundTrip({ a: [1, 2] }, { a: { b: 1 } });
+    expectRoundTrip(undefined, { a: 1 });
+    expectRoundTrip(null, 0);
+  });
+
+  test('should reconstruct arrays in every alignment mode', () => {
+    expectRoundTrip([1, 2, 3, 4, 5], [9, 1, 3, 4, 6, 2]);
+    expectRoundTrip([1, 2, 3, 4, 5], [9, 1, 3, 4, 6, 2], { arrayMode: 'lcs' });
+    expectRoundTrip(
+      [{ id: 1, n: 'a' }, { id: 2 }, { id: 3, tags: ['x'] }],
+      [{ id: 3, tags: ['x', 'y'] }, { id: 1, n: 'b' }, { id: 4 }],
+      { arrayKey: 'id' },
+    );
+    expectRoundTrip(
+      [{ id: 1 }, { id: 2 }, { id: 3 }],
+      [{ id: 3 }, { id: 1 }, { id: 2 }],
+      {
+        arrayKey: 'id',
+      },
+    );
+  });
+
+  test('should not mutate its inputs', () => {
+    const oldValue = structuredClone(v1);
+    const result = diffRaw(v1, v2);
+    const output = applyDiff(oldValue, result) as typeof v2;
+
+    expect(oldValue).toEqual(v1);
+    output.tags.push('d');
+    expect(result.newValue).toEqual(v2);
+  });
+
+  test('should keep class instances and values with toJSON', () => {
+    class Point {
+      constructor(
+        public x: number,
+        public y: number,
+      ) {}
+      norm() {
+        return Math.hypot(this.x, this.y);
+      }
+      toJSON() {
+        return { x: this.x, y: this.y };
+      }
+    }
+    const origin = new Point(0, 0);
+    const stamp = { toJSON: () => '2024-01-01' };
+    const oldValue = { a: 1, origin, target: new Point(3, 4) };
+    const newValue = { a: 2, origin, target: new Point(6, 8), stamp };
+    const result = diffRaw(oldValue, newValue);
+
+    const output = applyDiff(oldValue, result) as typeof newValue;
+    expect(output.origin).toBe(origin);
+    expect(output.target.norm()).toBe(10);
+    expect(output.stamp.toJSON()).toBe('2024-01-01');
+    expect(revertDiff(newValue, result)).toEqual(oldValue);
+  });
+
+  test('should leave paths outside the diff untouched', () => {
+    const result = diffRaw(
+      { a: 1, updatedAt: 1 },
+      { a: 2, updatedAt: 2 },
+      { ignoreKeys: ['updatedAt'] },
+    );
+
+    expect(applyDiff({ a: 1, updatedAt: 5 }, result)).toEqual({
+      a: 2,
+      updatedAt: 5,
+    });
+  });
+
+  test('should fail when the target no longer matches the old value', () => {
+    const result = diffRaw(v1, v2);
+
+    expect(() => applyDiff({ ...v1, port: 4000 }, result)).toThrow(
+      'Cannot apply diff at port: expected 3000, found 4000',
+    );
+    expect(() => applyDiff({ ...v1, cache: false }, result)).toThrow(
+      'Cannot apply diff at cache: expected undefined, found false',
+    );
+    expect(() => revertDiff(v1, result)).toThrow('Cannot revert diff at port');
+  });
+
+  test('should fail when an array changed length', () => {
+    const result = diffRaw({ tags: ['a'] }, { tags: ['b'] });
+
+    expect(() => applyDiff({ tags: ['a', 'z'] }, result)).toThrow(
+      'Cannot apply diff at tags',
+    );
+  });
+});
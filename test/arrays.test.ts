@@ -0,0 +1,320 @@
+import { describe, expect, test } from 'vitest';
+import { diff, diffRaw, DiffType, isDiff } from '../src';
+
+describe('array alignment', () => {
+  describe("arrayMode: 'lcs'", () => {
+    test('should report a single insertion at the front of a long array', () => {
+      const oldArray = Array.from({ length: 500 }, (_, i) => i);
+      const newArray = [-1, ...oldArray];
+
+      const result = diffRaw(oldArray, newArray, { arrayMode: 'lcs' });
+      const changes = result.children?.filter(
+        (child) => child.type !== DiffType.UNCHANGED,
+      );
+
+      expect(result.type).toBe('changed');
+      expect(changes).toHaveLength(1);
+      expect(changes?.[0].type).toBe('added');
+      expect(changes?.[0].newValue).toBe(-1);
+      expect(changes?.[0].path).toEqual(['0']);
+    });
+
+    test('should report deletions with their original index', () => {
+      const result = diffRaw(['a', 'b', 'c', 'd'], ['a', 'c', 'd'], {
+        arrayMode: 'lcs',
+      });
+      const changes = result.children?.filter(
+        (child) => child.type !== DiffType.UNCHANGED,
+      );
+
+      expect(changes).toEqual([
+        { type: 'removed', path: ['1'], oldValue: 'b' },
+      ]);
+    });
+
+    test('should detect moved elements', () => {
+      const result = diffRaw(['a', 'b', 'c', 'd'], ['d', 'a', 'b', 'c'], {
+        arrayMode: 'lcs',
+      });
+      const moved = result.children?.find(
+        (child) => child.type === DiffType.MOVED,
+      );
+
+      expect(result.type).toBe('changed');
+      expect(moved?.newValue).toBe('d');
+      expect(moved?.meta).toEqual({ fromIndex: 3, toIndex: 0 });
+      expect(
+        result.children?.filter((child) => child.type !== DiffType.UNCHANGED),
+      ).toHaveLength(1);
+    });
+
+    test('should detect moved objects using deep equality', () => {
+      const result = diffRaw(
+        [{ id: 1 }, { id: 2 }, { id: 3 }],
+        [{ id: 3 }, { id: 1 }, { id: 2 }],
+        { arrayMode: 'lcs' },
+      );
+      const moved = result.children?.find(
+        (child) => child.type === DiffType.MOVED,
+      );
+
+      expect(moved?.newValue).toEqual({ id: 3 });
+      expect(moved?.meta).toEqual({ fromIndex: 2, toIndex: 0 });
+    });
+
+    test('should detect moves between differently written equal values', () => {
+      class Point {
+        constructor(private readonly x: number) {}
+        toJSON() {
+          return { x: this.x };
+        }
+      }
+      const result = diffRaw(
+        [{ b: 2, a: 1 }, { x: 1 }, 'x', 'y'],
+        ['x', 'y', { a: 1, b: 2, c: undefined }, new Point(1)],
+        { arrayMode: 'lcs' },
+      );
+      const moved = result.children?.filter(
+        (child) => child.type === DiffType.MOVED,
+      );
+
+      expect(moved?.map((child) => child.meta)).toEqual([
+        { fromIndex: 0, toIndex: 2 },
+        { fromIndex: 1, toIndex: 3 },
+      ]);
+    });
+
+    test('should settle elements with different contents without deep comparison', () => {
+      let conversions = 0;
+      class Point {
+        constructor(private readonly x: number) {}
+        toJSON() {
+          conversions++;
+          return { x: this.x };
+        }
+      }
+      const oldPoints = Array.from({ length: 50 }, (_, i) => new Point(i));
+      const newPoints = Array.from({ length: 50 }, (_, i) => new Point(i + 50));
+      diffRaw(oldPoints, newPoints, { arrayMode: 'lcs' });
+
+      // Each point is converted once to key it and once to diff it
+      expect(conversions).toBeLessThanOrEqual(4 * 50);
+    });
+
+    test('should diff replaced elements recursively', () => {
+      const result = diffRaw(
+        [{ id: 1, name: 'Alice' }, { id: 2 }],
+        [{ id: 1, name: 'Alicia' }, { id: 2 }],
+        { arrayMode: 'lcs' },
+      );
+      const changed = result.children?.[0];
+
+      expect(changed?.type).toBe('changed');
+      expect(changed?.children?.find((c) => c.path?.at(-1) === 'name')).toEqual(
+        expect.objectContaining({ oldValue: 'Alice', newValue: 'Alicia' }),
+      );
+    });
+
+    test('should be unchanged for identical arrays', () => {
+      const result = diffRaw([1, [2, 3]], [1, [2, 3]], { arrayMode: 'lcs' });
+      expect(result.type).toBe('unchanged');
+    });
+
+    test('should render moved elements with their own marker', () => {
+      const result = diff(['a', 'b', 'c'], ['c', 'a', 'b'], {
+        arrayMode: 'lcs',
+        color: false,
+      });
+
+      expect(result).toContain("~ 'c' (moved from 2 to 0)");
+      expect(result).not.toContain("- 'a'");
+    });
+  });
+
+  test('should keep positional comparison by default', () => {
+    const result = diffRaw([1, 2, 3], [0, 1, 2, 3]);
+    const changes = result.children?.filter(
+      (child) => child.type !== DiffType.UNCHANGED,
+    );
+
+    expect(changes).toHaveLength(4);
+  });
+
+  describe('arrayKey', () => {
+    const oldUsers = [
+      { id: 1, name: 'Alice' },
+      { id: 2, name: 'Bob' },
+      { id: 3, name: 'Carol' },
+    ];
+    const newUsers = [
+      { id: 3, name: 'Carol' },
+      { id: 1, name: 'Alicia' },
+      { id: 4, name: 'Dave' },
+    ];
+
+    test('should match records by property name', () => {
+      const result = diffRaw(oldUsers, newUsers, { arrayKey: 'id' });
+      const byType = (type: DiffType) =>
+        result.children?.filter((child) => child.type === type);
+
+      expect(byType(DiffType.UNCHANGED)).toHaveLength(0);
+      expect(byType(DiffType.MOVED)?.[0].meta).toEqual({
+        key: 3,
+        fromIndex: 2,
+        toIndex: 0,
+      });
+      expect(byType(DiffType.ADDED)?.[0].newValue).toEqual({
+        id: 4,
+        name: 'Dave',
+      });
+      expect(byType(DiffType.REMOVED)?.[0].oldValue).toEqual({
+        id: 2,
+        name: 'Bob',
+      });
+
+      const alice = byType(DiffType.CHANGED)?.[0];
+      expect(alice?.path).toEqual(['1']);
+      expect(alice?.meta).toMatchObject({
+        key: 1,
+        fromIndex: 0,
+        toIndex: 1,
+        changeCount: 1,
+      });
+      expect(alice?.children?.find((c) => c.type === 'changed')?.path).toEqual([
+        '1',
+        'name',
+      ]);
+    });
+
+    test('should keep the index in child paths and the key in meta', () => {
+      const result = diffRaw(
+        { users: [{ email: 'a@x.io', age: 30 }] },
+        { users: [{ email: 'a@x.io', age: 31 }] },
+        { arrayKey: (user) => (user as { email: string }).email },
+      );
+      const user = result.children?.[0].children?.[0];
+
+      expect(user?.path).toEqual(['users', '0']);
+      expect(user?.meta?.key).toBe('a@x.io');
+    });
+
+    test('should apply per-path keys only where configured', () => {
+      const result = diffRaw(
+        { users: oldUsers, tags: [{ id: 1 }, { id: 2 }] },
+        { users: newUsers, tags: [{ id: 2 }, { id: 1 }] },
+        { arrayKey: { users: 'id' } },
+      );
+      const users = result.children?.find((c) => c.path?.at(-1) === 'users');
+      const tags = result.children?.find((c) => c.path?.at(-1) === 'tags');
+
+      expect(users?.children?.map((c) => c.meta?.key)).toEqual([3, 1, 4, 2]);
+      expect(tags?.type).toBe('changed');
+      expect(tags?.children?.[0].meta?.key).toBeUndefined();
+    });
+
+    test('should select per-path keys with path patterns', () => {
+      const result = diffRaw(
+        { rows: [{ items: [{ sku: 'a' }, { sku: 'b' }] }] },
+        { rows: [{ items: [{ sku: 'b' }, { sku: 'a' }] }] },
+        { arrayKey: { 'rows[*].items': 'sku' } },
+      );
+      const items = result.children?.[0].children?.[0].children?.[0];
+
+      expect(items?.children?.map((c) => [c.meta?.key, c.type])).toEqual([
+        ['b', DiffType.MOVED],
+        ['a', DiffType.UNCHANGED],
+      ]);
+    });
+
+    test('should select per-path keys inside keyed arrays', () => {
+      const result = diffRaw(
+        {
+          rows: [
+            { id: 1, items: [{ sku: 'a', qty: 1 }] },
+            {
+              id: 2,
+              items: [
+                { sku: 'b', qty: 1 },
+                { sku: 'c', qty: 1 },
+              ],
+            },
+          ],
+        },
+        {
+          rows: [
+            {
+              id: 2,
+              items: [
+                { sku: 'c', qty: 2 },
+                { sku: 'b', qty: 1 },
+              ],
+            },
+            { id: 1, items: [{ sku: 'a', qty: 1 }] },
+          ],
+        },
+        { arrayKey: { rows: 'id', 'rows[*].items': 'sku' } },
+      );
+      const items = result.children?.[0].children?.[0].children?.find(
+        (c) => c.path?.at(-1) === 'items',
+      );
+
+      expect(items?.path).toEqual(['rows', '0', 'items']);
+      expect(
+        items?.children
+          ?.filter((c) => c.type === DiffType.CHANGED)
+          .map((c) => c.meta?.key),
+      ).toEqual(['c']);
+    });
+
+    test('should match ignored keys inside keyed records', () => {
+      const oldValue = { users: [{ id: 'u1', name: 'a', password: 'x' }] };
+      const newValue = { users: [{ id: 'u1', name: 'a', password: 'y' }] };
+      const options = { arrayKey: 'id', ignoreKeys: ['users[*].password'] };
+
+      expect(diffRaw(oldValue, newValue, options).type).toBe(
+        DiffType.UNCHANGED,
+      );
+      expect(isDiff(oldValue, newValue, options)).toBe(false);
+    });
+
+    test('should fall back to positional comparison when keys are missing', () => {
+      const result = diffRaw([{ id: 1 }, { name: 'x' }], [{ id: 1 }], {
+        arrayKey: 'id',
+      });
+
+      expect(result.children?.[1]).toEqual({
+        type: 'removed',
+        path: ['1'],
+        oldValue: { name: 'x' },
+      });
+    });
+
+    test('should report keyed records that only changed order as moved', () => {
+      const reversed = [...oldUsers].reverse();
+      const result = diffRaw(oldUsers, reversed, { arrayKey: 'id' });
+
+      expect(result.type).toBe(DiffType.CHANGED);
+      expect(result.children?.map((c) => c.type)).toEqual([
+        DiffType.MOVED,
+        DiffType.MOVED,
+        DiffType.UNCHANGED,
+      ]);
+      expect(isDiff(oldUsers, reversed, { arrayKey: 'id' })).toBe(true);
+    });
+
+    test('should give duplicate and look-alike keys distinct paths', () => {
+      const result = diffRaw(
+        [{ id: 1, v: 'a' }, { id: '1' }, { id: 1, v: 'b' }],
+        [{ id: '1' }, { id: 1, v: 'a' }, { id: 1, v: 'c' }],
+        { arrayKey: 'id' },
+      );
+
+      expect(result.children?.map((c) => [c.path, c.meta?.key])).toEqual([
+        [['0'], '1'],
+        [['1'], 1],
+        [['2'], 1],
+      ]);
+      expect(result.children?.[2].type).toBe(DiffType.CHANGED);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, test } from 'vitest';
+import { diff, diffRaw, DiffType, isDiff, SerializableValue } from '../src';
+
+type Loop = { [key: string]: SerializableValue };
+
+type Node = { name: string; parent?: Node; children: Node[] };
+
+function createTree(childName: string): Node {
+  const root: Node = { name: 'root', children: [] };
+  root.children.push({ name: childName, parent: root, children: [] });
+  return root;
+}
+
+describe('circular references', () => {
+  test('should compare graphs with cycles', () => {
+    expect(isDiff(createTree('a'), createTree('a'))).toBe(false);
+    expect(isDiff(createTree('a'), createTree('b'))).toBe(true);
+  });
+
+  test('should report the path a cycle points back to', () => {
+    const result = diffRaw(createTree('a'), createTree('b'));
+    const child = result.children?.[1].children?.[0];
+
+    expect(child?.children?.map((c) => [c.path, c.type, c.meta])).toEqual([
+      [
+        ['children', '0', 'name'],
+        DiffType.CHANGED,
+        { levenDistance: 1, similarity: 0 },
+      ],
+      [['children', '0', 'parent'], DiffType.UNCHANGED, { circular: [] }],
+      [
+        ['children', '0', 'children'],
+        DiffType.UNCHANGED,
+        { similarity: 1, changeCount: 0 },
+      ],
+    ]);
+  });
+
+  test('should report cycles pointing to different places as changed', () => {
+    const oldInner: Loop = {};
+    const oldValue: Loop = { a: oldInner };
+    oldInner.back = oldValue;
+    const newInner: Loop = {};
+    const newValue: Loop = { a: newInner };
+    newInner.back = newInner;
+
+    const back = diffRaw(oldValue, newValue).children?.[0].children?.[0];
+    expect(back?.type).toBe(DiffType.CHANGED);
+    expect(back?.meta?.circular).toEqual(['a']);
+  });
+
+  test('should compare shared references at every place', () => {
+    const shared = { id: 1 };
+    const result = diffRaw(
+      { a: shared, b: shared },
+      { a: shared, b: { id: 2 } },
+    );
+
+    expect(result.children?.map((child) => child.type)).toEqual([
+      DiffType.UNCHANGED,
+      DiffType.CHANGED,
+    ]);
+  });
+
+  test('should render cycles instead of throwing', () => {
+    const output = diff(createTree('a'), createTree('b'), {
+      color: false,
+      full: true,
+    });
+
+    expect(output).toContain('parent: [Circular ~]');
+    expect(output).toContain("+ name: 'b'");
+  });
+
+  test('should render cycles inside changed values', () => {
+    const loop: Loop = { id: 1 };
+    loop.self = loop;
+
+    const output = diff({ value: null }, { value: loop }, { color: false });
+    expect(output).toContain('"self": "[Circular ~]"');
+  });
+
+  test('should not mistake the values of an enclosing diff for cycles', () => {
+    const oldValue = { status: 'open', items: [{ qty: 1 }] };
+    const newValue = { status: 'open', items: [{ qty: 2 }] };
+    const nested: boolean[] = [];
+
+    diffRaw(oldValue, newValue, {
+      comparators: [
+        {
+          path: 'status',
+          compare: () => {
+            nested.push(isDiff(oldValue, newValue));
+            nested.push(diffRaw(oldValue, newValue).type === DiffType.CHANGED);
+            return undefined;
+          },
+        },
+      ],
+    });
+
+    expect(nested).toEqual([true, true]);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, test } from 'vitest';
+import { diff, diffRaw, DiffType, isDiff } from '../src';
+
+describe('custom comparators', () => {
+  test('should compare selected paths with the comparator', () => {
+    const caseInsensitive = {
+      path: 'users[*].email',
+      compare: (a: unknown, b: unknown) =>
+        String(a).toLowerCase() === String(b).toLowerCase(),
+    };
+
+    const oldValue = { users: [{ email: 'Ann@Example.com', name: 'Ann' }] };
+    const newValue = { users: [{ email: 'ann@example.com', name: 'Ann' }] };
+
+    expect(isDiff(oldValue, newValue)).toBe(true);
+    expect(isDiff(oldValue, newValue, { comparators: [caseInsensitive] })).toBe(
+      false,
+    );
+  });
+
+  test('should compare values of the selected type', () => {
+    const result = diffRaw(
+      { a: 1.0001, b: 'x', c: 2 },
+      { a: 1.0002, b: 'y', c: 3 },
+      {
+        comparators: [
+          {
+            type: 'number',
+            compare: (a, b) => Math.abs((a as number) - (b as number)) < 0.01,
+          },
+        ],
+      },
+    );
+
+    expect(result.children?.map((child) => child.type)).toEqual([
+      DiffType.UNCHANGED,
+      DiffType.CHANGED,
+      DiffType.CHANGED,
+    ]);
+  });
+
+  test('should accept a type test function', () => {
+    const isVersion = (value: unknown) =>
+      typeof value === 'string' && /^\d+\.\d+\.\d+$/.test(value);
+    const sameMajor = {
+      type: isVersion,
+      compare: (a: unknown, b: unknown) =>
+        String(a).split('.')[0] === String(b).split('.')[0],
+    };
+
+    expect(isDiff('1.2.3', '1.4.0', { comparators: [sameMajor] })).toBe(false);
+    expect(isDiff('1.2.3', '2.0.0', { comparators: [sameMajor] })).toBe(true);
+    expect(isDiff('1.2.3', 'next', { comparators: [sameMajor] })).toBe(true);
+  });
+
+  test('should attach comparator metadata to the result', () => {
+    const result = diffRaw(
+      { price: 10 },
+      { price: 12 },
+      {
+        comparators: [
+          {
+            path: 'price',
+            compare: (a, b) => ({
+              equal: false,
+              meta: { delta: (b as number) - (a as number) },
+            }),
+          },
+        ],
+      },
+    );
+
+    expect(result.children?.[0]).toEqual({
+      type: DiffType.CHANGED,
+      path: ['price'],
+      oldValue: 10,
+      newValue: 12,
+      meta: { delta: 2 },
+    });
+  });
+
+  test('should take over objects and arrays as a whole', () => {
+    const byId = {
+      path: 'owner',
+      compare: (a: unknown, b: unknown) =>
+        (a as { id: number }).id === (b as { id: number }).id,
+    };
+
+    const result = diffRaw(
+      { owner: { id: 1, name: 'Ann' } },
+      { owner: { id: 2, name: 'Ann' } },
+      { comparators: [byId] },
+    );
+
+    expect(result.children?.[0].type).toBe(DiffType.CHANGED);
+    expect(result.children?.[0].children).toBeUndefined();
+    const output = diff(
+      { owner: { id: 1 } },
+      { owner: { id: 2 } },
+      {
+        comparators: [byId],
+        color: false,
+      },
+    );
+    expect(output).toContain('+ owner: {');
+    expect(output).toContain('"id": 2');
+  });
+
+  test('should defer to the next comparator and the built-in comparison', () => {
+    const calls: string[] = [];
+    const result = diffRaw(
+      { a: 1, b: 2 },
+      { a: 1, b: 3 },
+      {
+        comparators: [
+          {
+            compare: (_a, _b, path) => {
+              calls.push(path.join('.'));
+              return undefined;
+            },
+          },
+          { path: 'a', compare: () => false },
+        ],
+      },
+    );
+
+    expect(calls).toEqual(['', 'a', 'b']);
+    expect(result.children?.map((child) => child.type)).toEqual([
+      DiffType.CHANGED,
+      DiffType.CHANGED,
+    ]);
+  });
+
+  test('should use comparators when aligning arrays', () => {
+    const result = diffRaw(['A', 'b'], ['x', 'a', 'B'], {
+      arrayMode: 'lcs',
+      comparators: [
+        {
+          type: 'string',
+          compare: (a, b) =>
+            (a as string).toLowerCase() === (b as string).toLowerCase(),
+        },
+      ],
+    });
+
+    expect(result.children?.map((child) => child.type)).toEqual([
+      DiffType.ADDED,
+      DiffType.UNCHANGED,
+      DiffType.UNCHANGED,
+    ]);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, test } from 'vitest';
+import { diff, diffRaw, diffStats, DiffType } from '../src';
+
+describe('maxDepth', () => {
+  const oldValue = {
+    name: 'api',
+    config: { db: { host: 'a', port: 1 }, flags: [1, 2], mode: 'x' },
+    tags: ['a', 'b'],
+  };
+  const newValue = {
+    name: 'web',
+    config: { db: { host: 'b', port: 2 }, flags: [1, 3], mode: 'y' },
+    tags: ['a', 'c'],
+  };
+
+  test('should collapse changed containers beyond the depth', () => {
+    const result = diffRaw(oldValue, newValue, { maxDepth: 1 });
+    const config = result.children?.[1];
+
+    expect(config?.type).toBe(DiffType.CHANGED);
+    expect(config?.children).toBeUndefined();
+    expect(config?.meta).toMatchObject({ collapsed: true, changeCount: 4 });
+    expect(result.meta?.changeCount).toBe(6);
+  });
+
+  test('should summarize collapsed containers by their unchanged leaves', () => {
+    const result = diffRaw(oldValue, newValue, { maxDepth: 1 });
+
+    // Five leaves in config, four of them changed
+    expect(result.children?.[1].meta?.similarity).toBeCloseTo(0.2);
+  });
+
+  test('should count collapsed changes the way the full diff does', () => {
+    const oldList = { list: [{ id: 1 }, { id: 2, n: 'a' }, { id: 3 }] };
+    const newList = { list: [{ id: 3 }, { id: 1 }, { id: 2, n: 'b' }] };
+
+    for (const options of [
+      { arrayMode: 'lcs' },
+      { arrayKey: 'id' },
+      {},
+    ] as const) {
+      const full = diffRaw(oldList, newList, options).children?.[0];
+      const collapsed = diffRaw(oldList, newList, { ...options, maxDepth: 1 })
+        .children?.[0];
+
+      expect(collapsed?.meta?.changeCount).toBe(full?.meta?.changeCount);
+    }
+  });
+
+  test('should keep containers above the depth', () => {
+    const result = diffRaw(oldValue, newValue, { maxDepth: 2 });
+    const config = result.children?.[1];
+
+    expect(config?.meta?.collapsed).toBeUndefined();
+    expect(config?.children?.[0].meta).toMatchObject({
+      collapsed: true,
+      changeCount: 2,
+    });
+  });
+
+  test('should not collapse unchanged containers or leaves', () => {
+    const result = diffRaw(
+      { a: { b: 1 }, c: 1 },
+      { a: { b: 1 }, c: 2 },
+      { maxDepth: 1 },
+    );
+
+    expect(result.children?.[0]).toMatchObject({ type: DiffType.UNCHANGED });
+    expect(result.children?.[0].meta?.collapsed).toBeUndefined();
+    expect(result.children?.[1].meta?.collapsed).toBeUndefined();
+  });
+
+  test('should render collapsed containers with their change count', () => {
+    const output = diff(oldValue, newValue, { maxDepth: 1, color: false });
+
+    expect(output).toContain("+ name: 'web'");
+    expect(output).toContain('  config: { … 4 changes }');
+    expect(output).toContain('  tags: [ … 1 change ]');
+  });
+
+  test('should collapse the whole value at depth 0', () => {
+    expect(diff(oldValue, newValue, { maxDepth: 0, color: false })).toBe(
+      '  { … 6 changes }',
+    );
+  });
+
+  test('should count the changes of collapsed containers', () => {
+    expect(diffStats(oldValue, newValue, { maxDepth: 1 }).changed).toBe(6);
+  });
+});
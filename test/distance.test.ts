@@ -0,0 +1,115 @@
+import { describe, expect, test } from 'vitest';
+import { diff, diffRaw } from '../src';
+
+describe('bounded Levenshtein', () => {
+  test('should match the exact distance within the threshold', () => {
+    const words = ['kitten', 'sitting', 'saturday', 'sunday', '', 'a', 'abc'];
+    for (const a of words) {
+      for (const b of words) {
+        if (a === b) continue;
+        const exact = diffRaw(a, b).meta;
+        const bounded = diffRaw(a, b, { levenThreshold: 10 }).meta;
+
+        expect(bounded?.levenDistance).toBe(exact?.levenDistance);
+        expect(bounded?.approximate).toBeUndefined();
+      }
+    }
+  });
+
+  test('should agree with the exact distance on random strings', () => {
+    let seed = 7;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const randomString = () =>
+      Array.from({ length: Math.floor(random() * 30) }, () =>
+        'abc'.charAt(Math.floor(random() * 3)),
+      ).join('');
+
+    for (let i = 0; i < 200; i++) {
+      const a = randomString();
+      const b = randomString();
+      const exact = diffRaw(a, b).meta?.levenDistance ?? 0;
+      const threshold = Math.floor(random() * 20);
+      const bounded = diffRaw(a, b, { levenThreshold: threshold }).meta;
+
+      if (exact <= threshold) {
+        expect(bounded?.levenDistance).toBe(exact);
+      } else {
+        expect(bounded?.approximate).toBe(true);
+        expect(bounded?.levenDistance).toBeGreaterThanOrEqual(exact);
+      }
+    }
+  });
+
+  test('should estimate strings beyond the threshold', () => {
+    const meta = diffRaw('prefix-aaaa-suffix', 'prefix-bbbbbb-suffix', {
+      levenThreshold: 2,
+    }).meta;
+
+    expect(meta).toMatchObject({
+      levenDistance: 6,
+      similarity: 1 - 6 / 20,
+      approximate: true,
+    });
+  });
+
+  test('should estimate strings longer than maxLevenLength', () => {
+    const oldValue = `${'x'.repeat(5000)}a${'y'.repeat(5000)}`;
+    const newValue = `${'x'.repeat(5000)}bc${'y'.repeat(5000)}`;
+    const meta = diffRaw(oldValue, newValue, { maxLevenLength: 1000 }).meta;
+
+    expect(meta).toMatchObject({ levenDistance: 2, approximate: true });
+    expect(meta?.similarity).toBeCloseTo(1 - 2 / 10002);
+    expect(
+      diffRaw('abc', 'abd', { maxLevenLength: 3 }).meta,
+    ).not.toHaveProperty('approximate');
+  });
+
+  test('should mark estimated similarity in the output', () => {
+    const output = diff(
+      { a: 'abcdef' },
+      { a: 'abXXef' },
+      {
+        maxLevenLength: 4,
+        withSimilarity: true,
+        color: false,
+      },
+    );
+
+    expect(output).toContain('(~67% similar)');
+  });
+
+  test('should align estimated strings by their prefix and suffix only', () => {
+    const oldValue = `${'x'.repeat(5000)}a${'y'.repeat(5000)}`;
+    const newValue = `${'x'.repeat(5000)}bc${'y'.repeat(5000)}`;
+    const { segments } =
+      diffRaw(oldValue, newValue, { maxLevenLength: 1000, highlight: true })
+        .meta ?? {};
+
+    expect(segments?.map((segment) => segment.type)).toEqual([
+      'equal',
+      'delete',
+      'insert',
+      'equal',
+    ]);
+    expect(segments?.[1].value).toBe('a');
+    expect(segments?.[2].value).toBe('bc');
+
+    const { hunks } =
+      diffRaw('a\nb\nc\nd\ne', 'a\nx\nc\ny\ne', {
+        lineDiff: true,
+        levenThreshold: 1,
+        contextLines: 1,
+      }).meta ?? {};
+
+    expect(hunks?.[0].lines).toEqual([
+      { type: 'equal', value: 'a' },
+      { type: 'delete', value: 'b' },
+      { type: 'delete', value: 'c' },
+      { type: 'delete', value: 'd' },
+      { type: 'insert', value: 'x' },
+      { type: 'insert', value: 'c' },
+      { type: 'insert', value: 'y' },
+      { type: 'equal', value: 'e' },
+    ]);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, test } from 'vitest';
+import {
+  diffFlat,
+  DiffType,
+  formatJsonPath,
+  formatPointer,
+  parseJsonPath,
+  parsePointer,
+} from '../src';
+
+describe('diffFlat', () => {
+  test('should list leaf changes with typed paths', () => {
+    const changes = diffFlat(
+      { users: [{ name: 'Ann' }], '0': 'key' },
+      { users: [{ name: 'Anna' }, { name: 'Bob' }], '0': 'zero' },
+    );
+
+    expect(changes.map(({ type, path }) => [type, path])).toEqual([
+      [DiffType.CHANGED, ['0']],
+      [DiffType.CHANGED, ['users', 0, 'name']],
+      [DiffType.ADDED, ['users', 1]],
+    ]);
+    expect(changes[1]).toMatchObject({
+      pointer: '/users/0/name',
+      jsonPath: '$.users[0].name',
+      oldValue: 'Ann',
+      newValue: 'Anna',
+    });
+    expect(changes[2]).toEqual({
+      type: DiffType.ADDED,
+      path: ['users', 1],
+      pointer: '/users/1',
+      jsonPath: '$.users[1]',
+      newValue: { name: 'Bob' },
+    });
+  });
+
+  test('should escape keys that are not plain names', () => {
+    const [change] = diffFlat({ 'a.b': { 'c/d': 1 } }, { 'a.b': { 'c/d': 2 } });
+
+    expect(change.path).toEqual(['a.b', 'c/d']);
+    expect(change.pointer).toBe('/a.b/c~1d');
+    expect(change.jsonPath).toBe("$['a.b']['c/d']");
+  });
+
+  test('should address aligned elements by their index', () => {
+    const changes = diffFlat(
+      [
+        { id: 1, v: 'a' },
+        { id: 2, v: 'b' },
+      ],
+      [
+        { id: 2, v: 'c' },
+        { id: 3, v: 'd' },
+      ],
+      { arrayKey: 'id' },
+    );
+
+    expect(changes.map(({ type, pointer }) => [type, pointer])).toEqual([
+      [DiffType.CHANGED, '/0/v'],
+      [DiffType.ADDED, '/1'],
+      [DiffType.REMOVED, '/0'],
+    ]);
+  });
+
+  test('should return no entries for equal values', () => {
+    expect(diffFlat({ a: [1] }, { a: [1] })).toEqual([]);
+  });
+});
+
+describe('JSON Pointer helpers', () => {
+  test('should format and parse pointers', () => {
+    expect(formatPointer(['a/b', 'm~n', 0])).toBe('/a~1b/m~0n/0');
+    expect(parsePointer('/a~1b/m~0n/0')).toEqual(['a/b', 'm~n', '0']);
+    expect(parsePointer('')).toEqual([]);
+    expect(parsePointer('/')).toEqual(['']);
+  });
+
+  test('should reject malformed pointers', () => {
+    expect(() => parsePointer('a/b')).toThrow('Invalid JSON Pointer: a/b');
+    expect(() => parsePointer('/a~2')).toThrow('Invalid JSON Pointer');
+  });
+});
+
+describe('JSONPath helpers', () => {
+  test('should format and parse paths', () => {
+    const segments = ['users', 0, 'first name', "it's", '0'];
+    const jsonPath = formatJsonPath(segments);
+
+    expect(jsonPath).toBe("$.users[0]['first name']['it\\'s']['0']");
+    expect(parseJsonPath(jsonPath)).toEqual(segments);
+    expect(parseJsonPath('$')).toEqual([]);
+    expect(parseJsonPath('$["a"][2]')).toEqual(['a', 2]);
+  });
+
+  test('should reject unsupported expressions', () => {
+    expect(() => parseJsonPath('users[0]')).toThrow('Invalid JSONPath');
+    expect(() => parseJsonPath('$..name')).toThrow('Invalid JSONPath');
+    expect(() => parseJsonPath('$.users[*]')).toThrow('Invalid JSONPath');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'vitest';
+import { diff, htmlStylesheet } from '../src';
+
+describe('html format', () => {
+  test('should render nested markup with classes and paths', () => {
+    const output = diff(
+      { user: { name: 'Alice', tags: ['a'] } },
+      { user: { name: 'Bob', tags: ['a', 'b'] } },
+      { format: 'html' },
+    );
+
+    expect(
+      output.startsWith(
+        '<div class="dl-diff"><div class="dl-object" data-path="">',
+      ),
+    ).toBe(true);
+    expect(output).toContain(
+      '<div class="dl-object" data-path="user"><div class="dl-line"><span class="dl-key">user</span>: {</div>',
+    );
+    expect(output).toContain(
+      `<div class="dl-changed" data-path="user.name"><div class="dl-added"><span class="dl-marker">+</span> <span class="dl-key">name</span>: <span class="dl-value">'Bob'</span></div><div class="dl-removed"><span class="dl-marker">-</span> <span class="dl-key">name</span>: <span class="dl-value">'Alice'</span></div></div>`,
+    );
+    expect(output).toContain(
+      '<div class="dl-added" data-path="user.tags.1"><span class="dl-marker">+</span> <span class="dl-value">\'b\'</span></div>',
+    );
+    expect(output).not.toContain('\x1b[');
+  });
+
+  test('should escape keys and values', () => {
+    const output = diff(
+      { '<key>': '<script>alert("x")</script>' },
+      { '<key>': '&' },
+      { format: 'html' },
+    );
+
+    expect(output).not.toContain('<script>');
+    expect(output).not.toContain('<key>');
+    expect(output).toContain(
+      '&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;',
+    );
+    expect(output).toContain('data-path="&lt;key&gt;"');
+    expect(output).toContain("'&amp;'");
+  });
+
+  test('should highlight edited characters inline', () => {
+    const output = diff(
+      { a: 'cat' },
+      { a: 'cut' },
+      {
+        format: 'html',
+        highlight: true,
+      },
+    );
+
+    expect(output).toContain("'c<ins>u</ins>t'");
+    expect(output).toContain("'c<del>a</del>t'");
+  });
+
+  test('should render annotations, type changes and moves', () => {
+    expect(diff({ a: '5' }, { a: 5 }, { format: 'html' })).toContain(
+      '<div class="dl-changed dl-type-changed" data-path="a">',
+    );
+    expect(
+      diff(
+        { a: 'abcd' },
+        { a: 'abce' },
+        {
+          format: 'html',
+          withSimilarity: true,
+        },
+      ),
+    ).toContain('<span class="dl-note">(75% similar)</span>');
+    expect(
+      diff([1, 2], [2, 1], { format: 'html', arrayMode: 'lcs' }),
+    ).toContain(
+      '<div class="dl-moved" data-path="1"><span class="dl-marker">~</span> <span class="dl-value">1</span><span class="dl-note">(moved from 0 to 1)</span></div>',
+    );
+  });
+
+  test('should render the summary inside the document', () => {
+    const output = diff({ a: 1 }, { a: 2 }, { format: 'html', summary: true });
+
+    expect(
+      output.endsWith(
+        '<div class="dl-summary">1 changed, 0 added, 0 removed</div></div>',
+      ),
+    ).toBe(true);
+  });
+
+  test('should render nothing for equal values', () => {
+    expect(diff({ a: 1 }, { a: 1 }, { format: 'html' })).toBe('');
+  });
+
+  test('should export a stylesheet for its classes', () => {
+    for (const name of ['dl-added', 'dl-removed', 'dl-changed', 'dl-key']) {
+      expect(htmlStylesheet).toContain(`.${name}`);
+    }
+  });
+});
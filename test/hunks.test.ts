@@ -0,0 +1,105 @@
+import { describe, expect, test } from 'vitest';
+import { diff, diffRaw } from '../src';
+
+const oldQuery = [
+  'SELECT id, name',
+  'FROM users',
+  'WHERE active = 1',
+  'ORDER BY name',
+  'LIMIT 10',
+  'OFFSET 0',
+  '-- end',
+].join('\n');
+
+const newQuery = [
+  'SELECT id, name',
+  'FROM accounts',
+  'WHERE active = 1',
+  'ORDER BY name',
+  'LIMIT 10',
+  'OFFSET 0',
+  '-- end',
+].join('\n');
+
+describe('line hunks', () => {
+  test('should not record hunks unless lineDiff is enabled', () => {
+    expect(diffRaw(oldQuery, newQuery).meta?.hunks).toBeUndefined();
+  });
+
+  test('should ignore single-line strings', () => {
+    expect(
+      diffRaw('one line', 'other line', { lineDiff: true }).meta?.hunks,
+    ).toBeUndefined();
+  });
+
+  test('should record hunks with context lines', () => {
+    const [hunk] =
+      diffRaw(oldQuery, newQuery, { lineDiff: true }).meta?.hunks ?? [];
+
+    expect(hunk).toEqual({
+      oldStart: 1,
+      oldLines: 5,
+      newStart: 1,
+      newLines: 5,
+      lines: [
+        { type: 'equal', value: 'SELECT id, name' },
+        { type: 'delete', value: 'FROM users' },
+        { type: 'insert', value: 'FROM accounts' },
+        { type: 'equal', value: 'WHERE active = 1' },
+        { type: 'equal', value: 'ORDER BY name' },
+        { type: 'equal', value: 'LIMIT 10' },
+      ],
+    });
+  });
+
+  test('should split distant changes into separate hunks', () => {
+    const hunks = diffRaw(oldQuery, newQuery.replace('-- end', '-- done'), {
+      lineDiff: true,
+      contextLines: 1,
+    }).meta?.hunks;
+
+    expect(
+      hunks?.map((h) => [h.oldStart, h.oldLines, h.newStart, h.newLines]),
+    ).toEqual([
+      [1, 3, 1, 3],
+      [6, 2, 6, 2],
+    ]);
+  });
+
+  test('should number pure insertions after the preceding line', () => {
+    const hunks = diffRaw('a\nb', 'a\nb\nc', {
+      lineDiff: true,
+      contextLines: 0,
+    }).meta?.hunks;
+
+    expect(hunks?.[0]).toEqual(
+      expect.objectContaining({
+        oldStart: 2,
+        oldLines: 0,
+        newStart: 3,
+        newLines: 1,
+      }),
+    );
+  });
+
+  test('should render hunks nested under the object key', () => {
+    const result = diff(
+      { name: 'report', query: oldQuery },
+      { name: 'report', query: newQuery },
+      { lineDiff: true, contextLines: 1, color: false },
+    );
+
+    expect(result).toBe(
+      [
+        '{',
+        '  query:',
+        '    @@ -1,3 +1,3 @@',
+        '      SELECT id, name',
+        '    + FROM accounts',
+        '    - FROM users',
+        '      WHERE active = 1',
+        '}',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import { bench, describe } from 'vitest';
+import { diffRaw, DiffType, isDiff, SerializableValue } from '../src';
+
+function makeRecords(count: number): SerializableValue {
+  return Array.from({ length: count }, (_, i) => ({
+    id: i,
+    name: `user-${i}`,
+    email: `user-${i}@example.com`,
+    tags: ['a', 'b', `tag-${i % 10}`],
+    profile: { age: 20 + (i % 50), city: `city-${i % 100}` },
+  }));
+}
+
+const records = makeRecords(5000);
+const sameRecords = makeRecords(5000);
+const changedRecords = makeRecords(5000) as { name: string }[];
+changedRecords[10].name = 'changed';
+
+// Long strings that only differ at the end
+const text = { body: `${'lorem ipsum '.repeat(1000)}a` };
+const editedText = { body: `${'lorem ipsum '.repeat(1000)}b` };
+
+describe('equal values', () => {
+  bench('isDiff', () => {
+    isDiff(records, sameRecords);
+  });
+  bench('diffRaw', () => {
+    void (diffRaw(records, sameRecords).type !== DiffType.UNCHANGED);
+  });
+});
+
+describe('early difference', () => {
+  bench('isDiff', () => {
+    isDiff(records, changedRecords);
+  });
+  bench('diffRaw', () => {
+    void (diffRaw(records, changedRecords).type !== DiffType.UNCHANGED);
+  });
+});
+
+describe('long strings', () => {
+  bench('isDiff', () => {
+    isDiff(text, editedText);
+  });
+  bench('diffRaw', () => {
+    void (diffRaw(text, editedText).type !== DiffType.UNCHANGED);
+  });
+});
+
+describe('ignoreKeys', () => {
+  const options = { ignoreKeys: ['profile', '[*].email'] };
+
+  bench('isDiff', () => {
+    isDiff(records, sameRecords, options);
+  });
+  bench('diffRaw', () => {
+    void (diffRaw(records, sameRecords, options).type !== DiffType.UNCHANGED);
+  });
+});
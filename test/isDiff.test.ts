@@ -1,5 +1,11 @@
 import { describe, expect, test } from 'vitest';
-import { isDiff } from '../src';
+import {
+  diffRaw,
+  DiffOptions,
+  DiffType,
+  isDiff,
+  SerializableValue,
+} from '../src';
 
 describe('isDiff()', () => {
   test('should return false for identical primitive values', () => {
@@ -130,3 +136,92 @@ describe('isDiff()', () => {
     expect(isDiff(obj1, obj2)).toBe(true);
   });
 });
+
+describe('isDiff() short-circuit', () => {
+  const cases: [SerializableValue, SerializableValue, DiffOptions][] = [
+    [{ a: [1, 2, 3] }, { a: [3, 1, 2] }, { arrayMode: 'lcs' }],
+    [[{ id: 1 }, { id: 2 }], [{ id: 2 }, { id: 1 }], { arrayKey: 'id' }],
+    [[{ id: 1 }, { x: 2 }], [{ x: 2 }, { id: 1 }], { arrayKey: 'id' }],
+    [{ a: { b: 1, t: 1 } }, { a: { b: 1, t: 2 } }, { ignoreKeys: ['a.t'] }],
+    [{ n: 100 }, { n: 101 }, { tolerance: { relative: 0.02 } }],
+    [{ n: 1 }, { n: 1.5 }, { pathTolerance: { m: 1 } }],
+    [{ a: '5' }, { a: 5 }, { strictTypes: false }],
+    [{ a: '5' }, { a: 5 }, {}],
+    [{ a: 'x' }, { a: 1 }, { keysOnly: true }],
+    [new Set([{ a: 1 }, 2]), new Set([2, { a: 1 }]), {}],
+    [new Set([{ a: 1 }]), new Set([{ a: 2 }]), {}],
+    [
+      { s: new Set([{ id: 1, ts: 1 }]) },
+      { s: new Set([{ id: 1, ts: 2 }]) },
+      { ignoreKeys: ['s.*.ts'] },
+    ],
+    [new Map([['k', [1]]]), new Map([['k', [1]]]), {}],
+    [{ d: new Date(0) }, { d: new Date(0) }, {}],
+    [{ a: 'Hello' }, { a: 'hello' }, {}],
+    [
+      { a: 'Hello' },
+      { a: 'hello' },
+      {
+        comparators: [
+          {
+            type: 'string',
+            compare: (a, b) =>
+              String(a).toLowerCase() === String(b).toLowerCase(),
+          },
+        ],
+      },
+    ],
+  ];
+
+  test.each(cases)(
+    'should agree with diffRaw (%j → %j, %j)',
+    (a, b, options) => {
+      expect(isDiff(a, b, options)).toBe(
+        diffRaw(a, b, options).type !== DiffType.UNCHANGED,
+      );
+    },
+  );
+
+  test('should pair set members under path patterns at their own path', () => {
+    expect(
+      isDiff(
+        { s: new Set([{ id: 1, ts: 1 }]) },
+        { s: new Set([{ id: 1, ts: 2 }]) },
+        { ignoreKeys: ['s.*.ts'] },
+      ),
+    ).toBe(false);
+  });
+
+  test('should agree with diffRaw on circular values', () => {
+    type Node = { [key: string]: SerializableValue };
+    const a: Node = { name: 'a' };
+    a.self = a;
+    const b: Node = { name: 'a' };
+    b.self = b;
+    const c: Node = { name: 'a', child: { name: 'a' } };
+    (c.child as Node).self = c;
+
+    expect(isDiff(a, b)).toBe(false);
+    expect(isDiff(a, c)).toBe(diffRaw(a, c).type !== DiffType.UNCHANGED);
+  });
+
+  test('should stop at the first difference', () => {
+    let calls = 0;
+    const counting: DiffOptions = {
+      comparators: [
+        {
+          type: 'number',
+          compare: () => {
+            calls++;
+            return undefined;
+          },
+        },
+      ],
+    };
+    const oldValue = Array.from({ length: 100 }, (_, i) => i);
+    const newValue = [-1, ...oldValue.slice(1)];
+
+    expect(isDiff(oldValue, newValue, counting)).toBe(true);
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, expect, test } from 'vitest';
+import { diff, markdownRenderer } from '../src';
+
+describe('markdown format', () => {
+  test('should render the counts and a diff fenced block', () => {
+    const output = diff(
+      { db: { host: 'a', port: 1 }, tags: ['x'] },
+      { db: { host: 'b', port: 1 }, tags: ['x', 'y'] },
+      { format: 'markdown', summary: true },
+    );
+
+    expect(output).toBe(
+      [
+        '**1 changed, 1 added, 0 removed**',
+        '',
+        '```diff',
+        '  {',
+        '    db: {',
+        "+     host: 'b'",
+        "-     host: 'a'",
+        '    },',
+        '    tags: [',
+        "+     'y'",
+        '    ]',
+        '  }',
+        '```',
+      ].join('\n'),
+    );
+  });
+
+  test('should never use colors', () => {
+    const output = diff(
+      { a: 'cat' },
+      { a: 'cut' },
+      { format: 'markdown', color: true, highlight: true },
+    );
+
+    expect(output).not.toContain('\x1b[');
+  });
+
+  test('should mark every line of multi-line strings', () => {
+    const output = diff(
+      { a: 'one\ntwo' },
+      { a: 'one\nthree' },
+      { format: 'markdown' },
+    );
+
+    expect(output).toContain(
+      ["+   a: 'one", "+   three'", "-   a: 'one", "-   two'"].join('\n'),
+    );
+  });
+
+  test('should render line hunks with markers in the first column', () => {
+    const output = diff(
+      { text: 'a\nb\nc' },
+      { text: 'a\nB\nc' },
+      { format: 'markdown', lineDiff: true },
+    );
+
+    expect(output).toContain(
+      [
+        '    text:',
+        '      @@ -1,3 +1,3 @@',
+        '      a',
+        '+     B',
+        '-     b',
+        '      c',
+      ].join('\n'),
+    );
+  });
+
+  test('should put each top-level key in a details section', () => {
+    const output = diff(
+      { db: { host: 'a' }, name: 'x', same: 1 },
+      { db: { host: 'b' }, name: 'y', same: 1, extra: true },
+      { format: 'markdown', markdownDetails: true, summary: true },
+    );
+
+    expect(output).toBe(
+      [
+        '**2 changed, 1 added, 0 removed**',
+        '',
+        '<details>',
+        '<summary><code>db</code>: 1 changed, 0 added, 0 removed</summary>',
+        '',
+        '```diff',
+        '  db: {',
+        "+   host: 'b'",
+        "-   host: 'a'",
+        '  }',
+        '```',
+        '',
+        '</details>',
+        '',
+        '<details>',
+        '<summary><code>name</code>: 1 changed, 0 added, 0 removed</summary>',
+        '',
+        '```diff',
+        "+ name: 'y'",
+        "- name: 'x'",
+        '```',
+        '',
+        '</details>',
+        '',
+        '<details>',
+        '<summary><code>extra</code>: 0 changed, 1 added, 0 removed</summary>',
+        '',
+        '```diff',
+        '+ extra: true',
+        '```',
+        '',
+        '</details>',
+      ].join('\n'),
+    );
+  });
+
+  test('should escape keys in details summaries', () => {
+    const output = diff(
+      { '<b>': 1 },
+      { '<b>': 2 },
+      { format: 'markdown', markdownDetails: true },
+    );
+
+    expect(output).toContain('<summary><code>&lt;b&gt;</code>:');
+  });
+
+  test('should lengthen the fence around values containing backticks', () => {
+    const output = diff('a```b', 'c', { format: 'markdown', summary: true });
+
+    expect(output).toBe(
+      [
+        '**1 changed, 0 added, 0 removed**',
+        '',
+        '````diff',
+        "+ 'c'",
+        "- 'a```b'",
+        '````',
+      ].join('\n'),
+    );
+  });
+
+  test('should only render the counts without changes', () => {
+    expect(
+      diff({ a: 1 }, { a: 1 }, { format: 'markdown', summary: true }),
+    ).toBe('**0 changed, 0 added, 0 removed**');
+    expect(diff({ a: 1 }, { a: 1 }, { format: 'markdown' })).toBe('');
+  });
+
+  test('should leave out the counts without summary', () => {
+    expect(diff({ a: 1 }, { a: 2 }, { format: 'markdown' })).toBe(
+      ['```diff', '  {', '+   a: 2', '-   a: 1', '  }', '```'].join('\n'),
+    );
+  });
+
+  test('should build on the renderer hooks', () => {
+    const output = diff(
+      { a: 1 },
+      { a: 2 },
+      {
+        format: {
+          ...markdownRenderer,
+          summary: (stats) => `### ${stats.changed} changed`,
+        },
+        summary: true,
+      },
+    );
+
+    expect(output.split('\n')[0]).toBe('### 1 changed');
+    expect(output).toContain('```diff\n  {');
+  });
+});
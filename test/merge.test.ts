@@ -0,0 +1,145 @@
+import { describe, expect, test } from 'vitest';
+import { formatConflicts, merge } from '../src';
+
+const base = {
+  server: { host: 'localhost', port: 3000 },
+  features: ['search'],
+  debug: false,
+};
+
+describe('merge()', () => {
+  test('should apply non-overlapping changes from both sides', () => {
+    const ours = { ...base, server: { host: 'localhost', port: 8080 } };
+    const theirs = { ...base, debug: true, cache: { ttl: 60 } };
+
+    expect(merge(base, ours, theirs)).toEqual({
+      value: {
+        server: { host: 'localhost', port: 8080 },
+        features: ['search'],
+        debug: true,
+        cache: { ttl: 60 },
+      },
+      conflicts: [],
+    });
+  });
+
+  test('should merge nested objects changed by both sides key by key', () => {
+    const ours = { ...base, server: { host: 'example.com', port: 3000 } };
+    const theirs = { ...base, server: { host: 'localhost', port: 443 } };
+
+    expect(merge(base, ours, theirs).value).toEqual({
+      ...base,
+      server: { host: 'example.com', port: 443 },
+    });
+  });
+
+  test('should match path patterns of identical changes at their path', () => {
+    const { conflicts } = merge(
+      { list: [{ id: 1, ts: 1 }], m: { lat: 100 } },
+      { list: [{ id: 1, ts: 2, x: 1 }], m: { lat: 110 } },
+      { list: [{ id: 1, ts: 3, x: 1 }], m: { lat: 110.5 } },
+      { ignoreKeys: ['list.*.ts'], pathTolerance: { 'm.lat': 1 } },
+    );
+
+    expect(conflicts).toEqual([]);
+  });
+
+  test('should accept identical changes on both sides', () => {
+    const edit = { ...base, features: ['search', 'export'] };
+
+    expect(merge(base, edit, structuredClone(edit))).toEqual({
+      value: edit,
+      conflicts: [],
+    });
+  });
+
+  test('should report conflicts and keep the base value by default', () => {
+    const ours = { ...base, server: { host: 'a.example.com', port: 3000 } };
+    const theirs = { ...base, server: { host: 'b.example.com', port: 3000 } };
+    const result = merge(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([
+      {
+        path: ['server', 'host'],
+        base: 'localhost',
+        ours: 'a.example.com',
+        theirs: 'b.example.com',
+      },
+    ]);
+    expect(result.value).toEqual(base);
+  });
+
+  test('should resolve conflicts with the chosen strategy', () => {
+    const ours = { ...base, features: ['search', 'export'] };
+    const theirs = { ...base, features: [] };
+
+    expect(
+      merge(base, ours, theirs, { strategy: 'prefer-ours' }).value,
+    ).toEqual(ours);
+    expect(
+      merge(base, ours, theirs, { strategy: 'prefer-theirs' }).value,
+    ).toEqual(theirs);
+    expect(
+      merge(base, ours, theirs, {
+        strategy: (conflict) => [
+          ...(conflict.ours as string[]),
+          ...(conflict.theirs as string[]),
+        ],
+      }).value,
+    ).toEqual(ours);
+  });
+
+  test('should treat a deletion against a modification as a conflict', () => {
+    const ours = { server: base.server, features: base.features };
+    const theirs = { ...base, debug: true };
+    const result = merge(base, ours, theirs, { strategy: 'prefer-ours' });
+
+    expect(result.conflicts[0]).toEqual({
+      path: ['debug'],
+      base: false,
+      ours: undefined,
+      theirs: true,
+    });
+    expect(result.value).not.toHaveProperty('debug');
+  });
+
+  test('should not report conflicts for ignored keys', () => {
+    const result = merge(
+      { a: 1, updatedAt: 1 },
+      { a: 1, updatedAt: 2 },
+      { a: 2, updatedAt: 3 },
+      { ignoreKeys: ['updatedAt'] },
+    );
+
+    expect(result).toEqual({ value: { a: 2, updatedAt: 3 }, conflicts: [] });
+  });
+});
+
+describe('formatConflicts()', () => {
+  test('should render git-style conflict blocks', () => {
+    const { conflicts } = merge(
+      { port: 3000, debug: false },
+      { port: 8080 },
+      { port: 443, debug: true },
+    );
+
+    expect(formatConflicts(conflicts, { color: false })).toBe(
+      [
+        '<<<<<<< ours',
+        'port: 8080',
+        '||||||| base',
+        'port: 3000',
+        '=======',
+        'port: 443',
+        '>>>>>>> theirs',
+        '',
+        '<<<<<<< ours',
+        '||||||| base',
+        'debug: false',
+        '=======',
+        'debug: true',
+        '>>>>>>> theirs',
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, test } from 'vitest';
+import { applyDiff, diff, diffRaw, DiffType, isDiff } from '../src';
+
+describe('native types', () => {
+  test('should compare dates by time', () => {
+    expect(isDiff(new Date('2024-01-01'), new Date('2024-01-01'))).toBe(false);
+    expect(isDiff(new Date('2024-01-01'), new Date('2024-01-02'))).toBe(true);
+    expect(
+      isDiff({ at: new Date('2024-01-01') }, { at: new Date('2024-01-02') }),
+    ).toBe(true);
+    expect(isDiff(new Date(NaN), new Date(NaN))).toBe(false);
+  });
+
+  test('should compare regular expressions by source and flags', () => {
+    expect(isDiff(/ab+c/i, /ab+c/i)).toBe(false);
+    expect(isDiff(/ab+c/i, /ab+c/g)).toBe(true);
+  });
+
+  test('should compare bigints by value', () => {
+    expect(isDiff(10n ** 20n, 10n ** 20n)).toBe(false);
+    expect(isDiff(1n, 2n)).toBe(true);
+    expect(isDiff(1n, 1)).toBe(true);
+  });
+
+  test('should compare typed arrays element by element', () => {
+    expect(isDiff(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBe(false);
+    expect(isDiff(new Uint8Array([1, 2]), new Uint8Array([1, 3]))).toBe(true);
+    expect(isDiff(new Uint8Array([1, 2]), new Int8Array([1, 2]))).toBe(true);
+  });
+
+  test('should diff maps by key', () => {
+    const result = diffRaw(
+      new Map<string, number>([
+        ['a', 1],
+        ['b', 2],
+      ]),
+      new Map<string, number>([
+        ['a', 1],
+        ['b', 3],
+        ['c', 4],
+      ]),
+    );
+
+    expect(result.type).toBe(DiffType.CHANGED);
+    expect(result.children).toEqual([
+      { type: DiffType.UNCHANGED, path: ['a'], oldValue: 1, newValue: 1 },
+      {
+        type: DiffType.CHANGED,
+        path: ['b'],
+        oldValue: 2,
+        newValue: 3,
+        meta: { delta: 1, percentChange: 50 },
+      },
+      { type: DiffType.ADDED, path: ['c'], newValue: 4 },
+    ]);
+  });
+
+  test('should diff sets by membership', () => {
+    const result = diffRaw(
+      new Set([1, 2, { id: 1 }]),
+      new Set([{ id: 1 }, 2, 3]),
+    );
+
+    expect(result.children?.map((child) => child.type)).toEqual([
+      DiffType.UNCHANGED,
+      DiffType.UNCHANGED,
+      DiffType.ADDED,
+      DiffType.REMOVED,
+    ]);
+    expect(isDiff(new Set(['a', 'b']), new Set(['b', 'a']))).toBe(false);
+  });
+
+  test('should pair set members under path patterns at their own path', () => {
+    const result = diffRaw(
+      { s: new Set([{ id: 1, ts: 1 }]) },
+      { s: new Set([{ id: 1, ts: 2 }]) },
+      { ignoreKeys: ['s.*.ts'] },
+    );
+
+    expect(result.type).toBe(DiffType.UNCHANGED);
+  });
+
+  test('should compare class instances through toJSON', () => {
+    class Money {
+      constructor(
+        private amount: number,
+        private currency: string,
+      ) {}
+      toJSON() {
+        return { amount: this.amount, currency: this.currency };
+      }
+    }
+
+    expect(isDiff(new Money(5, 'EUR'), new Money(5, 'EUR'))).toBe(false);
+    const result = diffRaw(new Money(5, 'EUR'), new Money(7, 'EUR'));
+    expect(result.children?.[0]).toMatchObject({
+      type: DiffType.CHANGED,
+      path: ['amount'],
+      oldValue: 5,
+      newValue: 7,
+    });
+  });
+
+  test('should report a change of type', () => {
+    expect(isDiff(new Date(0), 0)).toBe(true);
+    expect(isDiff(new Map(), {})).toBe(true);
+    expect(isDiff(new Set([1]), [1])).toBe(true);
+  });
+
+  test('should render native values readably', () => {
+    const result = diff(
+      {
+        at: new Date('2024-01-01T00:00:00.000Z'),
+        pattern: /a+/g,
+        size: 1n,
+        bytes: new Uint8Array([1]),
+      },
+      {
+        at: new Date('2024-02-01T00:00:00.000Z'),
+        pattern: /b+/g,
+        size: 2n,
+        bytes: new Uint8Array([2]),
+      },
+      { color: false },
+    );
+
+    expect(result).toContain('+ at: 2024-02-01T00:00:00.000Z');
+    expect(result).toContain('- at: 2024-01-01T00:00:00.000Z');
+    expect(result).toContain('+ pattern: /b+/g');
+    expect(result).toContain('+ size: 2n');
+    expect(result).toContain('+ bytes: Uint8Array [\n  2\n]');
+  });
+
+  test('should render map and set changes', () => {
+    const result = diff(
+      { tags: new Set(['a']), scores: new Map([['ann', 1]]) },
+      { tags: new Set(['a', 'b']), scores: new Map([['ann', 2]]) },
+      { color: false },
+    );
+
+    expect(result).toContain("+ 'b'");
+    expect(result).toContain('+ ann: 2');
+    expect(result).toContain('- ann: 1');
+  });
+
+  test('should apply diffs containing native values', () => {
+    const oldValue = { at: new Date(0), tags: new Set(['a']) };
+    const newValue = { at: new Date(1), tags: new Set(['a', 'b']) };
+
+    expect(applyDiff(oldValue, diffRaw(oldValue, newValue))).toEqual(newValue);
+  });
+});
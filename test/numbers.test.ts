@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'vitest';
+import { diff, diffRaw, DiffType, isDiff } from '../src';
+
+describe('numeric tolerance', () => {
+  test('should report floating-point noise without a tolerance', () => {
+    expect(isDiff(0.1 + 0.2, 0.3)).toBe(true);
+  });
+
+  test('should treat numbers within an absolute tolerance as equal', () => {
+    expect(isDiff(0.1 + 0.2, 0.3, { tolerance: 1e-9 })).toBe(false);
+    expect(isDiff(10, 10.5, { tolerance: 0.5 })).toBe(false);
+    expect(isDiff(10, 10.6, { tolerance: 0.5 })).toBe(true);
+  });
+
+  test('should scale a relative tolerance with the values', () => {
+    const options = { tolerance: { relative: 0.01 } };
+
+    expect(isDiff(1000, 1009, options)).toBe(false);
+    expect(isDiff(1000, 1011, options)).toBe(true);
+    expect(isDiff(1, 1.009, options)).toBe(false);
+  });
+
+  test('should use the looser of absolute and relative tolerance', () => {
+    const options = { tolerance: { absolute: 1, relative: 0.01 } };
+
+    expect(isDiff(5, 5.9, options)).toBe(false);
+    expect(isDiff(500, 504, options)).toBe(false);
+    expect(isDiff(500, 506, options)).toBe(true);
+  });
+
+  test('should apply per-path tolerances before the global one', () => {
+    const result = diffRaw(
+      { cpu: 0.5, metrics: { latency: 100, errors: 2 } },
+      { cpu: 0.51, metrics: { latency: 104, errors: 3 } },
+      {
+        tolerance: 0.1,
+        pathTolerance: { 'metrics.latency': { relative: 0.05 } },
+      },
+    );
+
+    expect(result.children?.map((child) => child.type)).toEqual([
+      DiffType.UNCHANGED,
+      DiffType.CHANGED,
+    ]);
+    expect(result.children?.[1].children?.map((child) => child.type)).toEqual([
+      DiffType.UNCHANGED,
+      DiffType.CHANGED,
+    ]);
+  });
+});
+
+describe('numeric change metadata', () => {
+  test('should record the delta and percent change', () => {
+    expect(diffRaw(100, 120).meta).toEqual({ delta: 20, percentChange: 20 });
+    expect(diffRaw(-50, -25).meta).toEqual({ delta: 25, percentChange: 50 });
+  });
+
+  test('should omit the percent change from zero', () => {
+    expect(diffRaw(0, 5).meta).toEqual({ delta: 5 });
+  });
+
+  test('should show the change when requested', () => {
+    const result = diff(
+      { latency: 100, queued: 0, ratio: 0.8 },
+      { latency: 120, queued: 5, ratio: 0.6 },
+      { withDelta: true, color: false },
+    );
+
+    expect(result).toContain('+ latency: 120 (+20%)');
+    expect(result).toContain('- latency: 100,');
+    expect(result).toContain('+ queued: 5 (+5)');
+    expect(result).toContain('+ ratio: 0.6 (-25%)');
+  });
+
+  test('should not show the change by default', () => {
+    const result = diff({ latency: 100 }, { latency: 120 }, { color: false });
+
+    expect(result).toContain('+ latency: 120');
+    expect(result).not.toContain('%');
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, expect, test } from 'vitest';
+import {
+  diffRaw,
+  DiffOptions,
+  JsonPatchOperation,
+  SerializableValue,
+  toJsonPatch,
+} from '../src';
+
+type Container = Record<string, SerializableValue> | SerializableValue[];
+
+/**
+ * Minimal RFC 6902 applier used to check generated patches
+ */
+function applyJsonPatch(
+  document: SerializableValue,
+  operations: JsonPatchOperation[],
+): SerializableValue {
+  let root = structuredClone(document);
+
+  const locate = (pointer: string): [Container, string] => {
+    const tokens = pointer
+      .split('/')
+      .slice(1)
+      .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+    const last = tokens.pop()!;
+    const parent = tokens.reduce<SerializableValue>(
+      (value, token) => (value as Record<string, SerializableValue>)[token],
+      root,
+    );
+    return [parent as Container, last];
+  };
+  const read = (pointer: string) => {
+    if (pointer === '') return root;
+    const [parent, key] = locate(pointer);
+    return (parent as Record<string, SerializableValue>)[key];
+  };
+  const remove = (pointer: string) => {
+    const [parent, key] = locate(pointer);
+    if (Array.isArray(parent)) parent.splice(Number(key), 1);
+    else delete parent[key];
+  };
+  const add = (pointer: string, value: SerializableValue) => {
+    if (pointer === '') {
+      root = value;
+      return;
+    }
+    const [parent, key] = locate(pointer);
+    if (Array.isArray(parent)) parent.splice(Number(key), 0, value);
+    else parent[key] = value;
+  };
+
+  for (const operation of operations) {
+    switch (operation.op) {
+      case 'add':
+        add(operation.path, operation.value);
+        break;
+      case 'remove':
+        remove(operation.path);
+        break;
+      case 'replace':
+        if (operation.path !== '') remove(operation.path);
+        add(operation.path, operation.value);
+        break;
+      case 'move': {
+        const value = read(operation.from);
+        remove(operation.from);
+        add(operation.path, value);
+        break;
+      }
+      case 'test':
+        expect(read(operation.path)).toEqual(operation.value);
+        break;
+    }
+  }
+
+  return root;
+}
+
+function expectPatchRoundTrip(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  options: DiffOptions = {},
+) {
+  const patch = toJsonPatch(diffRaw(oldValue, newValue, options), {
+    test: true,
+  });
+  expect(applyJsonPatch(oldValue, patch)).toEqual(newValue);
+  return patch;
+}
+
+describe('toJsonPatch()', () => {
+  test('should emit add, remove and replace operations', () => {
+    const result = diffRaw(
+      { name: 'api', port: 3000, debug: true },
+      { name: 'api', port: 8080, tags: ['x'] },
+    );
+
+    expect(toJsonPatch(result)).toEqual([
+      { op: 'replace', path: '/port', value: 8080 },
+      { op: 'remove', path: '/debug' },
+      { op: 'add', path: '/tags', value: ['x'] },
+    ]);
+  });
+
+  test('should escape ~ and / in JSON Pointers', () => {
+    const result = diffRaw({ 'a/b': { '~c': 1 } }, { 'a/b': { '~c': 2 } });
+
+    expect(toJsonPatch(result)).toEqual([
+      { op: 'replace', path: '/a~1b/~0c', value: 2 },
+    ]);
+  });
+
+  test('should precede replacements with a test operation', () => {
+    const result = diffRaw({ a: 'old' }, { a: 'new' });
+
+    expect(toJsonPatch(result, { test: true })).toEqual([
+      { op: 'test', path: '/a', value: 'old' },
+      { op: 'replace', path: '/a', value: 'new' },
+    ]);
+  });
+
+  test('should replace the whole document for changed primitives', () => {
+    expect(toJsonPatch(diffRaw(1, 2))).toEqual([
+      { op: 'replace', path: '', value: 2 },
+    ]);
+  });
+
+  test('should be empty for identical values', () => {
+    expect(toJsonPatch(diffRaw({ a: [1] }, { a: [1] }))).toEqual([]);
+  });
+
+  test('should use array index semantics for sequential operations', () => {
+    const patch = expectPatchRoundTrip([1, 2, 3, 4], [1, 3], {
+      arrayMode: 'lcs',
+    });
+
+    expect(patch).toEqual([
+      { op: 'remove', path: '/1' },
+      { op: 'remove', path: '/2' },
+    ]);
+  });
+
+  test('should emit move operations for moved elements', () => {
+    const patch = expectPatchRoundTrip(
+      ['a', 'b', 'c', 'd'],
+      ['d', 'a', 'b', 'c'],
+      { arrayMode: 'lcs' },
+    );
+
+    expect(patch).toEqual([{ op: 'move', from: '/3', path: '/0' }]);
+  });
+
+  test('should move and patch reordered keyed records', () => {
+    const patch = expectPatchRoundTrip(
+      { users: [{ id: 1, name: 'Alice' }, { id: 2 }, { id: 3 }] },
+      { users: [{ id: 3 }, { id: 1, name: 'Alicia' }, { id: 4 }] },
+      { arrayKey: 'id' },
+    );
+
+    expect(patch).toContainEqual({
+      op: 'replace',
+      path: '/users/1/name',
+      value: 'Alicia',
+    });
+    expect(patch.filter((op) => op.op === 'move')).toHaveLength(1);
+  });
+
+  test('should move keyed records that only changed order', () => {
+    const patch = expectPatchRoundTrip(
+      { users: [{ id: 1 }, { id: 2 }, { id: 3 }] },
+      { users: [{ id: 3 }, { id: 1 }, { id: 2 }] },
+      { arrayKey: 'id' },
+    );
+
+    expect(patch).toEqual([{ op: 'move', from: '/users/2', path: '/users/0' }]);
+  });
+
+  test('should rebuild the new value for positional arrays', () => {
+    expectPatchRoundTrip(
+      { list: [1, 2, 3], nested: [{ a: 1 }, { a: 2 }] },
+      { list: [1, 5], nested: [{ a: 1 }, { a: 3, b: 1 }, { c: 1 }] },
+    );
+  });
+
+  test('should emit maps and sets as JSON values', () => {
+    const patch = toJsonPatch(
+      diffRaw(
+        { tags: null, scores: null },
+        { tags: new Set(['a', 'b']), scores: new Map([['ann', 1]]) },
+      ),
+    );
+
+    expect(patch).toEqual([
+      { op: 'replace', path: '/tags', value: ['a', 'b'] },
+      { op: 'replace', path: '/scores', value: { ann: 1 } },
+    ]);
+    expect(JSON.parse(JSON.stringify(patch))).toEqual(patch);
+  });
+});
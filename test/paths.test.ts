@@ -0,0 +1,98 @@
+import { describe, expect, test } from 'vitest';
+import { diff, diffRaw } from '../src';
+
+const oldDoc = {
+  password: 'a',
+  users: [
+    { name: 'Alice', password: 'x', createdAt: 1 },
+    { name: 'Bob', password: 'y', createdAt: 2 },
+  ],
+  meta: { rev: 1, history: { at: 1 } },
+};
+
+const newDoc = {
+  password: 'b',
+  users: [
+    { name: 'Alice', password: 'z', createdAt: 3 },
+    { name: 'Bob', password: 'y', createdAt: 2 },
+  ],
+  meta: { rev: 2, history: { at: 2 } },
+};
+
+const changedPaths = (ignoreKeys: Parameters<typeof diffRaw>[2]) => {
+  const paths: string[] = [];
+  const walk = (node: ReturnType<typeof diffRaw>) => {
+    if (!node.children && node.type !== 'unchanged') {
+      paths.push(node.path?.join('.') ?? '');
+    }
+    node.children?.forEach(walk);
+  };
+  walk(diffRaw(oldDoc, newDoc, ignoreKeys));
+  return paths;
+};
+
+describe('path patterns', () => {
+  test('should keep matching plain keys at any depth', () => {
+    expect(changedPaths({ ignoreKeys: ['password'] })).toEqual([
+      'users.0.createdAt',
+      'meta.rev',
+      'meta.history.at',
+    ]);
+  });
+
+  test('should anchor dotted patterns with * at the root', () => {
+    expect(changedPaths({ ignoreKeys: ['users.*.password'] })).toEqual([
+      'password',
+      'users.0.createdAt',
+      'meta.rev',
+      'meta.history.at',
+    ]);
+  });
+
+  test('should match array indices with [*] and [n]', () => {
+    expect(
+      changedPaths({ ignoreKeys: ['users[*].password', 'users[0].createdAt'] }),
+    ).toEqual(['password', 'meta.rev', 'meta.history.at']);
+  });
+
+  test('should match nested paths with **', () => {
+    expect(changedPaths({ ignoreKeys: ['meta.**'] })).toEqual([
+      'password',
+      'users.0.password',
+      'users.0.createdAt',
+    ]);
+    expect(changedPaths({ ignoreKeys: ['**.history.at'] })).toContain(
+      'meta.rev',
+    );
+  });
+
+  test('should match partial segments with *', () => {
+    expect(changedPaths({ ignoreKeys: ['*At', 'pass*'] })).toEqual([
+      'meta.rev',
+      'meta.history.at',
+    ]);
+  });
+
+  test('should accept predicates', () => {
+    expect(
+      changedPaths({
+        ignoreKeys: [
+          (path, oldValue, newValue) =>
+            path[0] === 'meta' ||
+            (typeof oldValue === 'string' && typeof newValue === 'string'),
+        ],
+      }),
+    ).toEqual(['users.0.createdAt']);
+  });
+
+  test('should apply patterns to outputKeys', () => {
+    const result = diff(oldDoc, newDoc, {
+      outputKeys: ['users[*].name'],
+      ignoreKeys: ['password'],
+      color: false,
+    });
+
+    expect(result).toContain("  name: 'Alice'");
+    expect(result).not.toContain("'Bob'");
+  });
+});
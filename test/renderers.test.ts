@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'vitest';
+import { defaultRenderer, diff, registerRenderer, Renderer } from '../src';
+
+const pathRenderer: Renderer = {
+  objectOpen: () => '<object>',
+  objectClose: () => '</object>',
+  arrayOpen: () => '<array>',
+  arrayClose: () => '</array>',
+  added: (result, { path }) => `added ${path.join('.')}`,
+  removed: (result, { path }) => `removed ${path.join('.')}`,
+  changed: (result, { path }, annotation) =>
+    `changed ${path.join('.')}${annotation}`,
+  unchanged: (result, { path }) => `unchanged ${path.join('.')}`,
+};
+
+describe('renderers', () => {
+  const oldValue = { name: 'api', ports: [80], env: { DEBUG: '1' } };
+  const newValue = { name: 'web', ports: [80, 443], env: {} };
+
+  test('should render through a renderer object', () => {
+    expect(diff(oldValue, newValue, { format: pathRenderer })).toBe(
+      [
+        '<object>',
+        'changed name',
+        '<array>',
+        'added ports.1',
+        '</array>',
+        '<object>',
+        'removed env.DEBUG',
+        '</object>',
+        '</object>',
+      ].join('\n'),
+    );
+  });
+
+  test('should pass depth and keys to the hooks', () => {
+    const contexts: string[] = [];
+    const tracing: Renderer = {
+      ...pathRenderer,
+      added: (result, { depth, key }) => {
+        contexts.push(`${depth}:${key}`);
+        return '';
+      },
+    };
+    diff(
+      { a: { b: 1 }, list: [1] },
+      { a: { b: 1, c: 2 }, list: [1, 2] },
+      {
+        format: tracing,
+      },
+    );
+
+    expect(contexts).toEqual(['2:c', '2:undefined']);
+  });
+
+  test('should use registered renderers by name', () => {
+    registerRenderer('paths', pathRenderer);
+
+    expect(diff({ a: 1 }, { a: 2 }, { format: 'paths' })).toBe(
+      '<object>\nchanged a\n</object>',
+    );
+  });
+
+  test('should reject unknown and reserved names', () => {
+    expect(() => diff(1, 2, { format: 'nope' })).toThrow(
+      'Unknown format: nope',
+    );
+    expect(() => registerRenderer('unified', pathRenderer)).toThrow(
+      'Cannot register a renderer named "unified"',
+    );
+  });
+
+  test('should fall back to changed for moved and collapsed values', () => {
+    expect(
+      diff([1, 2], [2, 1], { format: pathRenderer, arrayMode: 'lcs' }),
+    ).toBe('<array>\nchanged 1\n</array>');
+    expect(
+      diff(
+        { a: { b: 1 } },
+        { a: { b: 2 } },
+        {
+          format: pathRenderer,
+          maxDepth: 1,
+        },
+      ),
+    ).toBe('<object>\nchanged a\n</object>');
+  });
+
+  test('should extend the default renderer', () => {
+    const output = diff(
+      { n: 1 },
+      { n: 2 },
+      {
+        color: false,
+        format: { ...defaultRenderer, annotate: () => ' (edited)' },
+      },
+    );
+
+    expect(output).toBe('{\n  + n: 2 (edited)\n  - n: 1\n}');
+  });
+
+  test('should render the default format by name', () => {
+    expect(diff({ a: 1 }, { a: 2 }, { format: 'default', color: false })).toBe(
+      diff({ a: 1 }, { a: 2 }, { color: false }),
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'vitest';
+import { diff, diffRaw } from '../src';
+
+describe('inline string segments', () => {
+  test('should not record segments unless requested', () => {
+    const result = diffRaw('hello world', 'hello there');
+    expect(result.meta?.segments).toBeUndefined();
+  });
+
+  test('should record character segments', () => {
+    const result = diffRaw('kitten', 'sitting', { stringSegments: 'char' });
+
+    expect(result.meta?.segments).toEqual([
+      { type: 'delete', value: 'k' },
+      { type: 'insert', value: 's' },
+      { type: 'equal', value: 'itt' },
+      { type: 'delete', value: 'e' },
+      { type: 'insert', value: 'i' },
+      { type: 'equal', value: 'n' },
+      { type: 'insert', value: 'g' },
+    ]);
+  });
+
+  test('should record word segments', () => {
+    const result = diffRaw('the quick brown fox', 'the slow brown fox', {
+      stringSegments: 'word',
+    });
+
+    expect(result.meta?.segments).toEqual([
+      { type: 'equal', value: 'the ' },
+      { type: 'delete', value: 'quick' },
+      { type: 'insert', value: 'slow' },
+      { type: 'equal', value: ' brown fox' },
+    ]);
+  });
+
+  test('should rebuild both strings from the segments', () => {
+    const oldValue = 'Node.js v14 or higher, npm v7';
+    const newValue = 'Node.js v16 or newer, npm v8!';
+    const segments = diffRaw(oldValue, newValue, { stringSegments: 'word' })
+      .meta?.segments;
+    const join = (side: string) =>
+      segments
+        ?.filter((s) => s.type === 'equal' || s.type === side)
+        .map((s) => s.value)
+        .join('');
+
+    expect(join('delete')).toBe(oldValue);
+    expect(join('insert')).toBe(newValue);
+  });
+
+  test('should highlight edited characters without colors', () => {
+    const result = diff(
+      { name: 'Alice' },
+      { name: 'Alicia' },
+      {
+        highlight: true,
+        color: false,
+      },
+    );
+
+    expect(result).toContain("+ name: 'Alic{+ia+}'");
+    expect(result).toContain("- name: 'Alic[-e-]'");
+  });
+
+  test('should highlight edited characters with inverse video', () => {
+    const result = diff('cat', 'cut', { highlight: true });
+
+    expect(result).toContain("+ 'c\x1b[7mu\x1b[27mt'");
+    expect(result).toContain("- 'c\x1b[7ma\x1b[27mt'");
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, expect, test, vi } from 'vitest';
+import { diff } from '../src';
+
+/**
+ * A row of side-by-side output with columns of the given width
+ */
+function row(column: number, left: string, right = ''): string {
+  return `${left.padEnd(column)} │${right ? ` ${right}` : ''}`;
+}
+
+describe('side-by-side format', () => {
+  test('should render old values on the left and new ones on the right', () => {
+    const output = diff(
+      { name: 'api', ports: [80], env: { DEBUG: '1' } },
+      { name: 'web', ports: [80, 443], env: {} },
+      { format: 'side-by-side', color: false, width: 50 },
+    );
+
+    expect(output).toBe(
+      [
+        row(23, '{', '{'),
+        row(23, "  - name: 'api'", "  + name: 'web'"),
+        row(23, '  ports: [', '  ports: ['),
+        row(23, '', '    + 443'),
+        row(23, '  ]', '  ]'),
+        row(23, '  env: {', '  env: {'),
+        row(23, "    - DEBUG: '1'"),
+        row(23, '  }', '  }'),
+        row(23, '}', '}'),
+      ].join('\n'),
+    );
+  });
+
+  test('should wrap long values between words', () => {
+    const output = diff(
+      { text: 'the quick brown fox jumps over the lazy dog' },
+      { text: 'the quick brown fox' },
+      { format: 'side-by-side', color: false, width: 43 },
+    );
+
+    expect(output).toBe(
+      [
+        row(20, '{', '{'),
+        row(20, "  - text: 'the quick", "  + text: 'the quick"),
+        row(20, '    brown fox jumps', "    brown fox'"),
+        row(20, '    over the lazy'),
+        row(20, "    dog'"),
+        row(20, '}', '}'),
+      ].join('\n'),
+    );
+  });
+
+  test('should pad unchanged values on both sides', () => {
+    const output = diff(
+      { a: 1, b: 2 },
+      { a: 1, b: 3 },
+      { format: 'side-by-side', color: false, full: true, width: 43 },
+    );
+
+    expect(output.split('\n')[1]).toBe(row(20, '    a: 1', '    a: 1'));
+  });
+
+  test('should line up the columns whatever the escape codes', () => {
+    const output = diff(
+      { note: 'a long sentence where only one word has changed' },
+      { note: 'a long sentence where only one term has changed' },
+      {
+        format: 'side-by-side',
+        stringSegments: 'word',
+        highlight: true,
+        width: 43,
+      },
+    );
+    const rows = output.split('\n');
+
+    expect(output).toContain('\x1b[7m');
+    expect(rows.length).toBeGreaterThan(3);
+    for (const line of rows) {
+      const visible = line.replace(/\x1b\[[0-9;]*m/g, '');
+      expect(visible.indexOf('│')).toBe(21);
+    }
+  });
+
+  test('should end every wrapped line with its colors reset', () => {
+    const output = diff(
+      { a: 'x'.repeat(40) },
+      { a: 'y' },
+      { format: 'side-by-side', width: 43 },
+    );
+    const [, first, second] = output.split('\n');
+
+    expect(first.startsWith(`  \x1b[31m- a: 'xxx`)).toBe(true);
+    expect(first).toContain('\x1b[0m │ ');
+    expect(second.startsWith('    \x1b[31mxxx')).toBe(true);
+  });
+
+  test('should render line hunks side by side', () => {
+    const output = diff(
+      { text: 'a\nb\nc' },
+      { text: 'a\nB\nc' },
+      { format: 'side-by-side', color: false, lineDiff: true, width: 43 },
+    );
+
+    expect(output).toBe(
+      [
+        row(20, '{', '{'),
+        row(20, '  text:', '  text:'),
+        row(20, '    @@ -1,3 +1,3 @@', '    @@ -1,3 +1,3 @@'),
+        row(20, '      a', '      a'),
+        row(20, '    - b', '    + B'),
+        row(20, '      c', '      c'),
+        row(20, '}', '}'),
+      ].join('\n'),
+    );
+  });
+
+  test('should count wide characters and emoji as two columns', () => {
+    const output = diff(
+      { t: '日本語テキスト', e: '✅✅' },
+      { t: 'text', e: 'ok' },
+      { format: 'side-by-side', color: false, width: 40 },
+    );
+
+    expect(output).toBe(
+      [
+        row(20, '{', '{'),
+        row(20, '  - t:', "  + t: 'text'"),
+        "    '日本語テキスト' │",
+        `  - e: '✅✅'${' '.repeat(7)} │   + e: 'ok'`,
+        row(20, '}', '}'),
+      ].join('\n'),
+    );
+  });
+
+  test('should measure code points without Intl.Segmenter', async () => {
+    vi.stubGlobal('Intl', { ...Intl, Segmenter: undefined });
+    vi.resetModules();
+    try {
+      const { diff } = await import('../src');
+      const output = diff(
+        { t: '日本語' },
+        { t: 'e\u0301' },
+        { format: 'side-by-side', color: false, width: 40 },
+      );
+
+      expect(output.split('\n')[1]).toBe(
+        `  - t: '日本語'${' '.repeat(5)} │   + t: 'e\u0301'`,
+      );
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  test('should keep a minimum column width', () => {
+    const output = diff(
+      { a: 1 },
+      { a: 2 },
+      { format: 'side-by-side', color: false, width: 10 },
+    );
+
+    expect(output.split('\n')[1]).toBe(row(20, '  - a: 1', '  + a: 2'));
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, test } from 'vitest';
+import { diffRaw, similarity } from '../src';
+
+describe('similarity', () => {
+  test('should be 1 for equal values and 0 for unrelated ones', () => {
+    expect(similarity({ a: [1, 2] }, { a: [1, 2] })).toBe(1);
+    expect(similarity({ a: 1 }, { b: 2 })).toBe(0);
+    expect(similarity(1, 2)).toBe(0);
+  });
+
+  test('should use the Levenshtein ratio for strings', () => {
+    expect(similarity('kitten', 'sitten')).toBeCloseTo(5 / 6);
+  });
+
+  test('should weight children by the number of values they hold', () => {
+    const oldValue = { flag: true, items: [1, 2, 3] };
+
+    // One of four leaves changed either way, wherever it sits
+    expect(similarity(oldValue, { ...oldValue, flag: false })).toBe(0.75);
+    expect(similarity(oldValue, { ...oldValue, items: [1, 2, 4] })).toBe(0.75);
+  });
+
+  test('should count added and removed subtrees by size', () => {
+    expect(similarity({ a: 1 }, { a: 1, b: { c: 1, d: 2, e: 3 } })).toBe(0.25);
+  });
+
+  test('should record similarity and change count on containers', () => {
+    const result = diffRaw(
+      { name: 'Alice', tags: ['a', 'b'], meta: { x: 1 } },
+      { name: 'Alicia', tags: ['a', 'c'], meta: { x: 1 } },
+    );
+
+    expect(result.meta?.changeCount).toBe(2);
+    expect(result.meta?.similarity).toBeCloseTo((4 / 6 + 1 + 0 + 1) / 4);
+    expect(result.children?.[1].meta).toEqual({
+      similarity: 0.5,
+      changeCount: 1,
+    });
+    expect(result.children?.[2].meta).toEqual({
+      similarity: 1,
+      changeCount: 0,
+    });
+  });
+
+  test('should rank candidates by closeness', () => {
+    const expected = { id: 1, name: 'Widget', price: 10, tags: ['a', 'b'] };
+    const candidates = [
+      { id: 2, name: 'Gadget', price: 12, tags: ['c'] },
+      { id: 1, name: 'Widgets', price: 10, tags: ['a', 'b'] },
+      { id: 1, name: 'Widget', price: 11, tags: ['a'] },
+    ];
+
+    const ranked = [...candidates].sort(
+      (a, b) => similarity(expected, b) - similarity(expected, a),
+    );
+    expect(ranked.map((c) => c.name)).toEqual(['Widgets', 'Widget', 'Gadget']);
+  });
+
+  test('should respect diff options', () => {
+    expect(
+      similarity({ a: 1, t: 1 }, { a: 1, t: 2 }, { ignoreKeys: ['t'] }),
+    ).toBe(1);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'vitest';
+import { diff, diffStats } from '../src';
+
+describe('diffStats', () => {
+  const oldValue = {
+    name: 'api',
+    replicas: 2,
+    env: { LOG_LEVEL: 'info', TIMEOUT: '30' },
+    ports: [80, 443],
+  };
+  const newValue = {
+    name: 'api',
+    replicas: 3,
+    env: { LOG_LEVEL: 'debug', RETRIES: '5' },
+    ports: [80, 443, 8080],
+  };
+
+  test('should count changed leaves', () => {
+    expect(diffStats(oldValue, newValue)).toEqual({
+      added: 2,
+      removed: 1,
+      changed: 2,
+      moved: 0,
+      deepestPath: ['env', 'LOG_LEVEL'],
+      byKey: {
+        replicas: { added: 0, removed: 0, changed: 1, moved: 0 },
+        env: { added: 1, removed: 1, changed: 1, moved: 0 },
+        ports: { added: 1, removed: 0, changed: 0, moved: 0 },
+      },
+    });
+  });
+
+  test('should report no changes for equal values', () => {
+    expect(diffStats({ a: [1] }, { a: [1] })).toEqual({
+      added: 0,
+      removed: 0,
+      changed: 0,
+      moved: 0,
+      byKey: {},
+    });
+  });
+
+  test('should count a changed primitive', () => {
+    expect(diffStats('a', 'b')).toMatchObject({
+      changed: 1,
+      deepestPath: [],
+      byKey: {},
+    });
+  });
+
+  test('should count moves and type changes', () => {
+    const stats = diffStats(
+      { list: [1, 2, 3], port: '80' },
+      { list: [3, 1, 2], port: 80 },
+      { arrayMode: 'lcs' },
+    );
+
+    expect(stats.moved).toBe(1);
+    expect(stats.changed).toBe(1);
+  });
+
+  test('should respect diff options', () => {
+    expect(
+      diffStats({ a: 1, t: 1 }, { a: 2, t: 2 }, { ignoreKeys: ['t'] }).changed,
+    ).toBe(1);
+  });
+});
+
+describe('summary footer', () => {
+  test('should append the counts after the diff', () => {
+    const output = diff(
+      { a: 1, b: 2, c: 3 },
+      { a: 10, b: 2, d: 4 },
+      { summary: true, color: false },
+    );
+
+    expect(output.endsWith('}\n1 changed, 1 added, 1 removed')).toBe(true);
+  });
+
+  test('should mention moves when there are any', () => {
+    const output = diff([1, 2], [2, 1], {
+      arrayMode: 'lcs',
+      summary: true,
+      color: false,
+    });
+
+    expect(output).toContain('0 changed, 0 added, 0 removed, 1 moved');
+  });
+
+  test('should print only the summary when nothing changed', () => {
+    expect(diff({ a: 1 }, { a: 1 }, { summary: true, color: false })).toBe(
+      '0 changed, 0 added, 0 removed',
+    );
+  });
+
+  test('should follow unified output', () => {
+    const output = diff(
+      { a: 1 },
+      { a: 2 },
+      { format: 'unified', summary: true, color: false },
+    );
+
+    expect(output).toMatch(/^--- a\n/);
+    expect(output).toMatch(/\n }\n1 changed, 0 added, 0 removed$/);
+  });
+});
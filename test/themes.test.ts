@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { diff, formatConflicts, merge } from '../src';
+
+describe('themes', () => {
+  test('should paint with the colorblind preset', () => {
+    const output = diff({ a: 1 }, { a: 2 }, { theme: 'colorblind' });
+
+    expect(output).toContain('  \x1b[38;5;33m+ a: 2\x1b[0m');
+    expect(output).toContain('  \x1b[38;5;208m- a: 1\x1b[0m');
+  });
+
+  test('should accept truecolor, 256-color and ANSI colors', () => {
+    const output = diff(
+      { a: 1, b: [1, 2] },
+      { a: 2, b: [2, 1] },
+      {
+        theme: { added: '#00ff80', removed: 196, moved: '\x1b[35m' },
+        arrayMode: 'lcs',
+        summary: true,
+      },
+    );
+
+    expect(output).toContain('  \x1b[38;2;0;255;128m+ a: 2');
+    expect(output).toContain('  \x1b[38;5;196m- a: 1');
+    expect(output).toContain('    \x1b[35m~ 1 (moved from 0 to 1)');
+    // Roles left out keep the colors of the default theme
+    expect(output).toContain('\x1b[90m1 changed, 0 added, 0 removed, 1 moved');
+  });
+
+  test('should paint every format', () => {
+    const theme = { added: 33, removed: 208 };
+
+    expect(diff({ a: 1 }, { a: 2 }, { format: 'unified', theme })).toContain(
+      '\x1b[38;5;33m+  "a": 2',
+    );
+    expect(
+      diff({ a: 1 }, { a: 2 }, { format: 'side-by-side', theme }),
+    ).toContain('\x1b[38;5;208m- a: 1');
+
+    const { conflicts } = merge({ a: 1 }, { a: 2 }, { a: 3 });
+    expect(formatConflicts(conflicts, { theme })).toContain(
+      '\x1b[38;5;33ma: 2',
+    );
+  });
+
+  test('should leave output uncolored without colors', () => {
+    expect(
+      diff({ a: 1 }, { a: 2 }, { theme: 'colorblind', color: false }),
+    ).not.toContain('\x1b[');
+  });
+
+  test('should reject unknown themes and invalid colors', () => {
+    expect(() => diff(1, 2, { theme: 'neon' as 'default' })).toThrow(
+      'Unknown theme: neon',
+    );
+    expect(() => diff(1, 2, { theme: { added: 256 } })).toThrow(
+      'Invalid theme color: 256',
+    );
+    expect(() => diff(1, 2, { theme: { added: 'green' } })).toThrow(
+      'Invalid theme color: "green"',
+    );
+  });
+});
+
+describe("color: 'auto'", () => {
+  const isTTY = process.stdout.isTTY;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    process.stdout.isTTY = isTTY;
+  });
+
+  const isColored = () => diff(1, 2, { color: 'auto' }).includes('\x1b[');
+
+  test('should color output to a terminal', () => {
+    vi.stubEnv('FORCE_COLOR', undefined);
+    vi.stubEnv('NO_COLOR', undefined);
+    vi.stubEnv('TERM', 'xterm-256color');
+
+    process.stdout.isTTY = true;
+    expect(isColored()).toBe(true);
+    process.stdout.isTTY = false;
+    expect(isColored()).toBe(false);
+  });
+
+  test('should respect NO_COLOR and TERM=dumb', () => {
+    vi.stubEnv('FORCE_COLOR', undefined);
+    vi.stubEnv('TERM', 'xterm-256color');
+    process.stdout.isTTY = true;
+
+    vi.stubEnv('NO_COLOR', '1');
+    expect(isColored()).toBe(false);
+    vi.stubEnv('NO_COLOR', '');
+    expect(isColored()).toBe(true);
+
+    vi.stubEnv('TERM', 'dumb');
+    expect(isColored()).toBe(false);
+  });
+
+  test('should let FORCE_COLOR take precedence', () => {
+    vi.stubEnv('NO_COLOR', '1');
+    process.stdout.isTTY = false;
+
+    vi.stubEnv('FORCE_COLOR', '1');
+    expect(isColored()).toBe(true);
+    vi.stubEnv('FORCE_COLOR', '0');
+    expect(isColored()).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'vitest';
+import { diff, diffRaw, DiffType, isDiff, toJsonPatch } from '../src';
+
+describe('type changes', () => {
+  test('should report a primitive changing type', () => {
+    expect(diffRaw({ port: '5' }, { port: 5 }).children?.[0]).toEqual({
+      type: DiffType.TYPE_CHANGED,
+      path: ['port'],
+      oldValue: '5',
+      newValue: 5,
+      meta: { oldType: 'string', newType: 'number' },
+    });
+  });
+
+  test('should report a container changing type', () => {
+    const result = diffRaw({ tags: { a: 1 } }, { tags: ['a'] });
+
+    expect(result.children?.[0].type).toBe(DiffType.TYPE_CHANGED);
+    expect(result.children?.[0].meta).toEqual({
+      oldType: 'object',
+      newType: 'array',
+    });
+    expect(result.children?.[0].children).toBeUndefined();
+  });
+
+  test('should keep changes from and to null as plain changes', () => {
+    expect(diffRaw(null, 'x').type).toBe(DiffType.CHANGED);
+    expect(diffRaw({ a: 1 }, null).type).toBe(DiffType.CHANGED);
+  });
+
+  test('should ignore scalar type changes with ignoreValues', () => {
+    expect(isDiff({ a: '1' }, { a: 1 }, { ignoreValues: true })).toBe(false);
+    expect(isDiff({ a: {} }, { a: [] }, { ignoreValues: true })).toBe(true);
+  });
+
+  test('should coerce numeric strings and booleans without strictTypes', () => {
+    const options = { strictTypes: false };
+
+    expect(isDiff('5', 5, options)).toBe(false);
+    expect(isDiff(' 2.50 ', 2.5, options)).toBe(false);
+    expect(isDiff('true', true, options)).toBe(false);
+    expect(isDiff(false, 0, options)).toBe(false);
+    expect(isDiff('5', 6, options)).toBe(true);
+    expect(isDiff('', 0, options)).toBe(true);
+    expect(isDiff('yes', true, options)).toBe(true);
+    expect(isDiff('5', 5)).toBe(true);
+  });
+
+  test('should render the type change', () => {
+    const result = diff({ port: '5' }, { port: 5 }, { color: false });
+
+    expect(result).toContain('+ port: 5 (string → number)');
+    expect(result).toContain("- port: '5'");
+  });
+
+  test('should replace values that changed type in JSON Patch', () => {
+    expect(toJsonPatch(diffRaw({ a: [1] }, { a: { 0: 1 } }))).toEqual([
+      { op: 'replace', path: '/a', value: { 0: 1 } },
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, test } from 'vitest';
+import { diff, DiffOptions, SerializableValue } from '../src';
+
+/**
+ * Apply a unified diff to a text, checking every context and removed line
+ */
+function applyPatch(text: string, patch: string): string {
+  const source = text.split('\n');
+  const output: string[] = [];
+  let cursor = 0;
+
+  for (const line of patch.split('\n').slice(2)) {
+    const header = line.match(/^@@ -(\d+),(\d+) /);
+    if (header) {
+      const start = Number(header[1]) - (Number(header[2]) > 0 ? 1 : 0);
+      output.push(...source.slice(cursor, start));
+      cursor = start;
+    } else if (line.startsWith('+')) {
+      output.push(line.slice(1));
+    } else {
+      expect(source[cursor]).toBe(line.slice(1));
+      if (line.startsWith(' ')) output.push(source[cursor]);
+      cursor++;
+    }
+  }
+
+  return [...output, ...source.slice(cursor)].join('\n');
+}
+
+function expectPatchRoundTrip(
+  oldValue: SerializableValue,
+  newValue: SerializableValue,
+  options: DiffOptions = {},
+) {
+  const patch = diff(oldValue, newValue, {
+    ...options,
+    format: 'unified',
+    color: false,
+  });
+  const oldText = JSON.stringify(oldValue, null, 2);
+  const newText = applyPatch(oldText, patch);
+
+  expect(JSON.parse(newText)).toEqual(newValue);
+}
+
+describe("format: 'unified'", () => {
+  test('should emit headers, hunks and context lines', () => {
+    const result = diff(
+      { name: 'api', port: 3000, tags: ['a', 'b'] },
+      { name: 'api', port: 8080, tags: ['a', 'b', 'c'] },
+      { format: 'unified', color: false, contextLines: 1 },
+    );
+
+    expect(result).toBe(
+      [
+        '--- a',
+        '+++ b',
+        '@@ -2,6 +2,7 @@',
+        '   "name": "api",',
+        '-  "port": 3000,',
+        '+  "port": 8080,',
+        '   "tags": [',
+        '     "a",',
+        '-    "b"',
+        '+    "b",',
+        '+    "c"',
+        '   ]',
+      ].join('\n'),
+    );
+  });
+
+  test('should use custom file labels', () => {
+    const result = diff(1, 2, {
+      format: 'unified',
+      color: false,
+      oldLabel: 'config.old.json',
+      newLabel: 'config.json',
+    });
+
+    expect(result.split('\n').slice(0, 2)).toEqual([
+      '--- config.old.json',
+      '+++ config.json',
+    ]);
+  });
+
+  test('should be empty for identical values', () => {
+    expect(diff({ a: 1 }, { a: 1 }, { format: 'unified' })).toBe('');
+  });
+
+  test('should color added and removed lines', () => {
+    const result = diff({ a: 1 }, { a: 2 }, { format: 'unified' });
+
+    expect(result).toContain('\x1b[32m+  "a": 2\x1b[0m');
+    expect(result).toContain('\x1b[31m-  "a": 1\x1b[0m');
+  });
+
+  test('should produce patches that rebuild the new value', () => {
+    expectPatchRoundTrip(
+      { a: 1, b: [1, 2, 3], c: { d: 'x' }, gone: true },
+      { a: 2, b: [0, 1, 2, 3], c: { d: 'x', e: [] } },
+    );
+    expectPatchRoundTrip({ x: {} }, { x: { q: [1, { r: null }] } });
+    expectPatchRoundTrip(['a', 'b', 'c', 'd', 'e'], ['e', 'a', 'c', 'd', 'x'], {
+      arrayMode: 'lcs',
+    });
+    expectPatchRoundTrip(
+      { list: [{ id: 1, n: 'a' }, { id: 2 }, { id: 3 }] },
+      { list: [{ id: 3 }, { id: 1, n: 'A' }, { id: 4 }] },
+      { arrayKey: 'id' },
+    );
+  });
+});